@@ -1,126 +1,596 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Header } from './components/Header';
 import { TextInputArea } from './components/TextInputArea';
 import { ActionButton } from './components/ActionButton';
 import { DataTable } from './components/DataTable';
+import { ProviderRegistryEditor } from './components/ProviderRegistryEditor';
+import { OutputOptionsForm } from './components/OutputOptionsForm';
+import { ValidationPanel } from './components/ValidationPanel';
+import { DuplicateConflictsPanel } from './components/DuplicateConflictsPanel';
+import { ColumnProfilesPanel } from './components/ColumnProfilesPanel';
+import { DiffPanel } from './components/DiffPanel';
+import { MarketProfilesPanel } from './components/MarketProfilesPanel';
+import { HeaderMappingDialog } from './components/HeaderMappingDialog';
+import { ImageManifestPanel } from './components/ImageManifestPanel';
+import { GameDetailDrawer } from './components/GameDetailDrawer';
+import { HistoryPanel } from './components/HistoryPanel';
+import { FileDropZone } from './components/FileDropZone';
+import { MondaySourcePanel } from './components/MondaySourcePanel';
+import { CmsPublishPanel } from './components/CmsPublishPanel';
 import { ProcessIcon } from './components/icons/ProcessIcon';
 import { DownloadIcon } from './components/icons/DownloadIcon';
 import { TableIcon } from './components/icons/TableIcon';
 import { ClearIcon } from './components/icons/ClearIcon';
-import { ProcessedGameData, GameProviderFolderMapping } from './types';
-import { GAME_PROVIDER_TO_FOLDER_MAP_CA, GAME_PROVIDER_TO_FOLDER_MAP_COM, APP_TITLE, OUTPUT_CSV_COLUMNS, PLACEHOLDER_INFO_REQUIRED_COLUMNS } from './constants';
-import { parsePastedData, generateCsvContent } from './services/dataProcessor';
+import { ProcessedGameData, ProviderRule, DelimitedTextDialect, CsvOutputOptions, ValidationIssue, IssueSeverity, DuplicateResolutionStrategy, EditHistory, CellEdits, ColumnProfile, BaselineExport, DiffDownloadKind, RowDiff, OutputColumnKey, MarketProfile, HeaderMappings, ImageManifest, HistoryRun, SlugRules } from './types';
+import { APP_TITLE, PLACEHOLDER_INFO_REQUIRED_COLUMNS, OUTPUT_FORMATS, DEFAULT_CSV_OUTPUT_OPTIONS, DEFAULT_SLUG_RULES } from './constants';
+import { runJobInWorker, ProcessingCancelledError } from './services/processingWorkerClient';
+import { loadProviderRules, saveProviderRules, addProviderMapping } from './services/providerRegistry';
+import { downloadFile, formatFileTimestamp } from './services/fileDownload';
+import { describeDialect } from './services/delimitedText';
+import { findDuplicateConflicts, conflictsToIssues, resolveDuplicates, findKeptRowIndexes, remapIssueRows, findCatalogSlugIssues, catalogSlugs } from './services/duplicateDetection';
+import { findEditedSlugIssues } from './services/slugs';
+import {
+  EMPTY_EDIT_HISTORY,
+  applyCellEdits,
+  setCellEdit,
+  setMarketCellEdit,
+  resetMarketCellEdit,
+  remapCellEdits,
+  countCellEdits,
+  isCellEdited,
+  pushEdits,
+  undoEdits,
+  redoEdits,
+} from './services/cellEdits';
+import { diffAgainstBaseline, selectRowsByStatus, changesetColumns } from './services/exportDiff';
+import { loadColumnProfiles, saveColumnProfiles, loadSelectedColumnProfileId, saveSelectedColumnProfileId } from './services/columnProfiles';
+import { loadMarketProfiles, saveMarketProfiles, loadSelectedMarketIds, saveSelectedMarketIds } from './services/marketProfiles';
+import { loadHeaderMappings, saveHeaderMappings, MissingHeadersError } from './services/headerMatching';
+import { verifyImages } from './services/imageManifest';
+import { resolveImagePreviewUrl } from './services/imagePreview';
+import { loadSession, saveSession, clearSession } from './services/session';
+import { listHistoryRuns, addHistoryRun, deleteHistoryRun, clearHistory, isDelimitedRun } from './services/historyStore';
+import { parseBaselineExport } from './services/exportDiff';
+
+interface ProcessOptions {
+  mappings?: HeaderMappings;
+  rules?: ProviderRule[];
+  keepEdits?: boolean;
+}
+
+interface RowChecks {
+  imageManifest: ImageManifest | null;
+  baseline: BaselineExport | null; // Also the catalog that slugs must not collide with
+  slugRules: SlugRules;
+}
+
+const NO_CELL_EDITS: CellEdits = {};
+
+// Parse issues about a field the user has since edited no longer apply; edited slugs are
+// checked again, and duplicate, catalog and image problems are found in the rows as they are now.
+function validateRows(parseIssues: ValidationIssue[], edits: CellEdits, rows: ProcessedGameData[], { imageManifest, baseline, slugRules }: RowChecks): ValidationIssue[] {
+  return [
+    ...parseIssues.filter(issue => issue.rowIndex === undefined || !issue.field || !isCellEdited(edits, issue.rowIndex, issue.field)),
+    ...findEditedSlugIssues(rows, edits, slugRules),
+    ...conflictsToIssues(rows, findDuplicateConflicts(rows)),
+    ...(baseline ? findCatalogSlugIssues(rows, baseline, slugRules) : []),
+    ...(imageManifest ? verifyImages(rows, imageManifest) : []),
+  ];
+}
 
 const App: React.FC = () => {
-  const [rawText, setRawText] = useState<string>('');
-  const [processedData, setProcessedData] = useState<ProcessedGameData[]>([]);
+  // The previous session is read once; its fields seed the state below.
+  const [restoredSession] = useState(loadSession);
+  const [rawText, setRawText] = useState<string>(restoredSession?.rawText ?? '');
+  const [marketRows, setMarketRows] = useState<Record<string, ProcessedGameData[]>>(restoredSession?.marketRows ?? {}); // Derived rows per processed market ID
+  const [activeMarketId, setActiveMarketId] = useState<string | null>(restoredSession?.activeMarketId ?? null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [processingProgress, setProcessingProgress] = useState(0); // 0 to 1 while isLoading
+  const processingAbortRef = useRef<AbortController | null>(null);
+  const [inputDialect, setInputDialect] = useState<DelimitedTextDialect | null>(restoredSession?.dialect ?? null);
+  const [issuesByMarket, setIssuesByMarket] = useState<Record<string, ValidationIssue[]>>(restoredSession?.issuesByMarket ?? {});
+  const [highlightedRowIndex, setHighlightedRowIndex] = useState<number | null>(null);
+  const [detailRowIndex, setDetailRowIndex] = useState<number | null>(null);
+  const [editHistory, setEditHistory] = useState<EditHistory>(() => ({ ...EMPTY_EDIT_HISTORY, present: restoredSession?.edits ?? {} }));
+  const [baseline, setBaseline] = useState<BaselineExport | null>(null);
+  const [imageManifest, setImageManifest] = useState<ImageManifest | null>(null);
+  const [outputOptions, setOutputOptions] = useState<CsvOutputOptions>(DEFAULT_CSV_OUTPUT_OPTIONS);
+  const [providerRules, setProviderRules] = useState<ProviderRule[]>(loadProviderRules);
+
+  const [columnProfiles, setColumnProfiles] = useState<ColumnProfile[]>(loadColumnProfiles);
+  const [selectedColumnProfileId, setSelectedColumnProfileId] = useState<string>(loadSelectedColumnProfileId);
+  const [marketProfiles, setMarketProfiles] = useState<MarketProfile[]>(loadMarketProfiles);
+  const [selectedMarketIds, setSelectedMarketIds] = useState<string[]>(loadSelectedMarketIds);
+  const [headerMappings, setHeaderMappings] = useState<HeaderMappings>(loadHeaderMappings);
+  const [missingHeaders, setMissingHeaders] = useState<MissingHeadersError | null>(null);
+  const [historyRuns, setHistoryRuns] = useState<HistoryRun[]>([]);
+
+  useEffect(() => {
+    saveProviderRules(providerRules);
+  }, [providerRules]);
+
+  useEffect(() => {
+    saveColumnProfiles(columnProfiles);
+  }, [columnProfiles]);
+
+  useEffect(() => {
+    saveSelectedColumnProfileId(selectedColumnProfileId);
+  }, [selectedColumnProfileId]);
+
+  useEffect(() => {
+    saveMarketProfiles(marketProfiles);
+  }, [marketProfiles]);
+
+  useEffect(() => {
+    saveSelectedMarketIds(selectedMarketIds);
+  }, [selectedMarketIds]);
+
+  useEffect(() => {
+    saveHeaderMappings(headerMappings);
+  }, [headerMappings]);
+
+  // Saved after typing pauses rather than on every keystroke; the pasted text and rows can be large.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      saveSession({ rawText, marketRows, activeMarketId, issuesByMarket, dialect: inputDialect, edits: editHistory.present });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [rawText, marketRows, activeMarketId, issuesByMarket, inputDialect, editHistory.present]);
+
+  const refreshHistory = useCallback(() => {
+    listHistoryRuns().then(setHistoryRuns, e => console.warn("Could not read the processing history:", e));
+  }, []);
 
-  const handleProcessData = useCallback(async (providerMapToUse: GameProviderFolderMapping, context: string) => {
+  useEffect(refreshHistory, [refreshHistory]);
+
+  const selectedColumnProfile = columnProfiles.find(profile => profile.id === selectedColumnProfileId) ?? columnProfiles[0];
+  const selectedMarkets = marketProfiles.filter(market => selectedMarketIds.includes(market.id));
+
+  // A market uses its own output columns when set, otherwise the profile selected for the preview.
+  const getMarketColumnProfile = useCallback((marketId: string): ColumnProfile => {
+    const market = marketProfiles.find(m => m.id === marketId);
+    return columnProfiles.find(profile => profile.id === market?.columnProfileId) ?? selectedColumnProfile;
+  }, [marketProfiles, columnProfiles, selectedColumnProfile]);
+
+  const getMarketLabel = useCallback((marketId: string) => marketProfiles.find(m => m.id === marketId)?.label ?? marketId, [marketProfiles]);
+
+  const getRowChecks = useCallback((marketId: string | null): RowChecks => ({
+    imageManifest,
+    baseline,
+    slugRules: marketProfiles.find(m => m.id === marketId)?.slugRules ?? DEFAULT_SLUG_RULES,
+  }), [imageManifest, baseline, marketProfiles]);
+
+  // Rows are skipped for the same reasons in every market, so row indexes line up across
+  // markets and duplicate resolution applies to all of them. Issues and edits are kept per
+  // market, since markets check slugs and derive images by their own rules.
+  const processedMarketIds = Object.keys(marketRows);
+  const processedData = (activeMarketId && marketRows[activeMarketId]) || [];
+  const issues = (activeMarketId && issuesByMarket[activeMarketId]) || [];
+  const activePreviewHost = marketProfiles.find(m => m.id === activeMarketId)?.previewHost;
+  const resolveImageUrl = useCallback((path: string) => resolveImagePreviewUrl(path, activePreviewHost), [activePreviewHost]);
+
+  // mappings and rules are passed explicitly when re-processing right after they changed,
+  // before the state update has landed. keepEdits re-applies the current edits, which is
+  // safe when only settings changed because the same rows come out in the same order.
+  // Parsing runs in a worker; the previous results stay in place until it finishes, so a
+  // cancelled run leaves them untouched.
+  const handleProcessData = useCallback(async ({ mappings = headerMappings, rules = providerRules, keepEdits = false }: ProcessOptions = {}) => {
     if (!rawText.trim()) {
       setError("Input data cannot be empty.");
-      setProcessedData([]);
+      setMarketRows({});
+      return;
+    }
+    if (selectedMarkets.length === 0) {
+      setError("Select at least one market to process.");
       return;
     }
+    processingAbortRef.current?.abort();
+    const controller = new AbortController();
+    processingAbortRef.current = controller;
     setIsLoading(true);
+    setProcessingProgress(0);
     setError(null);
-    setProcessedData([]); // Clear previous results
-
-    console.log(`Processing for context: ${context} using map:`, providerMapToUse);
+    setHighlightedRowIndex(null);
 
     try
     {
-      await new Promise(resolve => setTimeout(resolve, 100)); 
-      const data = parsePastedData(rawText, providerMapToUse);
-      setProcessedData(data);
-      if (data.length === 0 && !error) { 
+      const { rowsByMarket, issuesByMarket: parseIssues, dialect } = await runJobInWorker(
+        { kind: 'parse', text: rawText, providerRules: rules, markets: selectedMarkets, headerMappings: mappings },
+        { onProgress: setProcessingProgress, signal: controller.signal }
+      );
+      const data = rowsByMarket[selectedMarkets[0].id];
+      if (!keepEdits) {
+        setEditHistory(EMPTY_EDIT_HISTORY);
+      }
+      setMarketRows(data.length > 0 ? rowsByMarket : {});
+      setActiveMarketId(selectedMarkets[0].id);
+      setIssuesByMarket(parseIssues);
+      setInputDialect(dialect);
+      if (data.length === 0) { 
          setError("No valid data rows found or core required headers are missing. " + PLACEHOLDER_INFO_REQUIRED_COLUMNS);
       }
     } catch (e) {
+      if (e instanceof ProcessingCancelledError) return;
+      if (e instanceof MissingHeadersError) {
+        setMissingHeaders(e);
+      }
       if (e instanceof Error) {
         setError(`Error processing data: ${e.message}`);
       } else {
         setError("An unknown error occurred during processing.");
       }
-      setProcessedData([]);
+      setMarketRows({});
+      setIssuesByMarket({});
     } finally {
-      setIsLoading(false);
+      // A newer run may have replaced this one and now owns the loading state
+      if (processingAbortRef.current === controller) {
+        processingAbortRef.current = null;
+        setIsLoading(false);
+      }
     }
-  }, [rawText, error]); // error is a dependency because it's checked in the if condition
+  }, [rawText, providerRules, selectedMarkets, headerMappings]);
 
-  const handleDownloadCsv = useCallback(() => {
-    if (processedData.length === 0) {
-      setError("No data to download.");
+  const handleCancelProcessing = useCallback(() => {
+    processingAbortRef.current?.abort();
+    processingAbortRef.current = null;
+    setIsLoading(false);
+  }, []);
+
+  const handleImportText = useCallback((text: string) => {
+    setRawText(text);
+    setError(null);
+  }, []);
+
+  const handleApplyHeaderMappings = useCallback((choices: HeaderMappings) => {
+    const mappings = { ...headerMappings, ...choices };
+    setHeaderMappings(mappings);
+    setMissingHeaders(null);
+    handleProcessData({ mappings });
+  }, [headerMappings, handleProcessData]);
+
+  const handleAddProviderMapping = useCallback((providerName: string, mapTo?: string) => {
+    const rules = addProviderMapping(providerRules, providerName, marketProfiles.map(market => market.id), mapTo);
+    setProviderRules(rules);
+    handleProcessData({ rules, keepEdits: true });
+  }, [providerRules, marketProfiles, handleProcessData]);
+
+  const handleToggleMarket = useCallback((marketId: string) => {
+    setSelectedMarketIds(ids => (ids.includes(marketId) ? ids.filter(id => id !== marketId) : [...ids, marketId]));
+  }, []);
+
+  const handleMarketsChange = useCallback((markets: MarketProfile[]) => {
+    setMarketProfiles(markets);
+    setSelectedMarketIds(ids => ids.filter(id => markets.some(market => market.id === id)));
+  }, []);
+
+  // The market ID keys provider image folders, the selection and processed rows, so all follow a rename.
+  const handleRenameMarketId = useCallback((oldId: string, newId: string) => {
+    const renameKey = <T,>(record: Record<string, T>): Record<string, T> =>
+      Object.fromEntries(Object.entries(record).map(([key, value]) => [key === oldId ? newId : key, value]));
+    setMarketProfiles(markets => markets.map(market => (market.id === oldId ? { ...market, id: newId } : market)));
+    setProviderRules(rules => rules.map(rule => (oldId in rule.imageFolders ? { ...rule, imageFolders: renameKey(rule.imageFolders) } : rule)));
+    setSelectedMarketIds(ids => ids.map(id => (id === oldId ? newId : id)));
+    setMarketRows(renameKey);
+    setIssuesByMarket(renameKey);
+    setEditHistory(history => ({ past: history.past.map(renameKey), present: renameKey(history.present), future: history.future.map(renameKey) }));
+    setActiveMarketId(id => (id === oldId ? newId : id));
+  }, []);
+
+  // processedData holds the active market's derived rows; displayedData layers that market's
+  // cell edits on top and is what the preview, validation and download work with.
+  const edits = editHistory.present;
+  const activeEdits = (activeMarketId && edits[activeMarketId]) || NO_CELL_EDITS;
+  const displayedData = useMemo(() => applyCellEdits(processedData, activeEdits), [processedData, activeEdits]);
+
+  // Conflicts are derived from the current rows so they update as rows are resolved or edited.
+  const duplicateConflicts = useMemo(() => findDuplicateConflicts(displayedData), [displayedData]);
+  const imageIssues = useMemo(() => (imageManifest ? verifyImages(displayedData, imageManifest) : []), [displayedData, imageManifest]);
+  const allIssues = useMemo(
+    () => validateRows(issues, activeEdits, displayedData, getRowChecks(activeMarketId)),
+    [issues, activeEdits, displayedData, getRowChecks, activeMarketId]
+  );
+
+  const diff = useMemo(() => (baseline ? diffAgainstBaseline(displayedData, baseline) : null), [displayedData, baseline]);
+  const rowDiffs = useMemo(() => {
+    const byRow: Record<number, RowDiff> = {};
+    diff?.rows.forEach(row => {
+      if (row.rowIndex !== undefined) byRow[row.rowIndex] = row;
+    });
+    return byRow;
+  }, [diff]);
+
+  // Most severe issue per kept row, for marking rows in the preview.
+  const rowSeverities = useMemo(() => {
+    const severities: Record<number, IssueSeverity> = {};
+    for (const issue of allIssues) {
+      if (issue.rowIndex !== undefined && severities[issue.rowIndex] !== 'error') {
+        severities[issue.rowIndex] = issue.severity;
+      }
+    }
+    return severities;
+  }, [allIssues]);
+
+  const handleSelectIssue = useCallback((issue: ValidationIssue) => {
+    if (issue.rowIndex !== undefined) {
+      setHighlightedRowIndex(issue.rowIndex);
+    }
+  }, []);
+
+  // Removing rows re-keys the edits and starts a fresh undo history; renamed slugs are
+  // recorded as edits so they can be undone or reset like any other change.
+  // Slugs are renamed in the active market only, since markets may derive them differently.
+  const handleResolveDuplicates = useCallback((strategy: DuplicateResolutionStrategy) => {
+    if (!activeMarketId) return;
+    if (strategy === 'suffixSlug') {
+      const { slugRules } = getRowChecks(activeMarketId);
+      const { rows } = resolveDuplicates(displayedData, strategy, slugRules, baseline ? catalogSlugs(baseline) : []);
+      let nextEdits = activeEdits;
+      rows.forEach((row, rowIndex) => {
+        if (row.seoFriendlyGameName !== displayedData[rowIndex].seoFriendlyGameName) {
+          nextEdits = setCellEdit(nextEdits, processedData[rowIndex], rowIndex, 'seoFriendlyGameName', row.seoFriendlyGameName);
+        }
+      });
+      setEditHistory(history => pushEdits(history, { ...history.present, [activeMarketId]: nextEdits }));
+      return;
+    }
+    // Every market drops the same rows, checked against each market's own edited values.
+    const keptIndexes = findKeptRowIndexes(
+      processedMarketIds.map(marketId => applyCellEdits(marketRows[marketId], edits[marketId] ?? NO_CELL_EDITS)),
+      strategy
+    );
+    setMarketRows(rowsByMarket => Object.fromEntries(
+      Object.entries(rowsByMarket).map(([marketId, rows]) => [marketId, keptIndexes.map(index => rows[index])])
+    ));
+    setIssuesByMarket(current => Object.fromEntries(
+      Object.entries(current).map(([marketId, marketIssues]: [string, ValidationIssue[]]) => [marketId, remapIssueRows(marketIssues, keptIndexes)])
+    ));
+    setEditHistory({
+      past: [],
+      present: Object.fromEntries(Object.entries(edits).map(([marketId, marketEdits]: [string, CellEdits]) => [marketId, remapCellEdits(marketEdits, keptIndexes)])),
+      future: [],
+    });
+    setHighlightedRowIndex(null);
+  }, [activeMarketId, displayedData, processedData, processedMarketIds, marketRows, edits, activeEdits, getRowChecks, baseline]);
+
+  const handleCellEdit = useCallback((rowIndex: number, field: keyof ProcessedGameData, value: ProcessedGameData[keyof ProcessedGameData]) => {
+    if (!activeMarketId) return;
+    setEditHistory(history => pushEdits(history, setMarketCellEdit(history.present, marketRows, activeMarketId, rowIndex, field, value)));
+  }, [marketRows, activeMarketId]);
+
+  const handleApplySuggestion = useCallback((issue: ValidationIssue) => {
+    if (issue.rowIndex === undefined || !issue.field || issue.suggestedValue === undefined) return;
+    handleCellEdit(issue.rowIndex, issue.field, issue.suggestedValue);
+  }, [handleCellEdit]);
+
+  const handleCellReset = useCallback((rowIndex: number, field: keyof ProcessedGameData) => {
+    if (!activeMarketId) return;
+    setEditHistory(history => pushEdits(history, resetMarketCellEdit(history.present, marketRows, activeMarketId, rowIndex, field)));
+  }, [marketRows, activeMarketId]);
+
+  // Other markets keep their edits; the count and button only cover the market shown.
+  const handleResetMarketEdits = useCallback(() => {
+    if (!activeMarketId) return;
+    setEditHistory(history => {
+      const { [activeMarketId]: _reset, ...otherMarkets } = history.present;
+      return pushEdits(history, otherMarkets);
+    });
+  }, [activeMarketId]);
+
+  const handleUndo = useCallback(() => setEditHistory(undoEdits), []);
+  const handleRedo = useCallback(() => setEditHistory(redoEdits), []);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) outside of text fields.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Issues about the given rows (taken from displayedData) and about skipped rows.
+  const issuesForRows = useCallback((rows: ProcessedGameData[]): ValidationIssue[] => {
+    const exportedRows = new Set(rows);
+    return allIssues.filter(issue => issue.rowIndex === undefined || exportedRows.has(displayedData[issue.rowIndex]));
+  }, [displayedData, allIssues]);
+
+  // Errors on rows that would be exported block the download or publish; skipped rows and
+  // warnings only need confirmation. rows are taken from displayedData unless rowIssues,
+  // the issues of another market's rows, are given along with its label.
+  const confirmExport = useCallback((
+    rows: ProcessedGameData[],
+    action: 'Download' | 'Publish' = 'Download',
+    other?: { marketLabel: string; rowIssues: ValidationIssue[] }
+  ): boolean => {
+    if (rows.length === 0) {
+      setError(`No data to ${action.toLowerCase()}.`);
+      return false;
+    }
+    const rowIssues = other?.rowIssues ?? issuesForRows(rows);
+    const blockingIssues = rowIssues.filter(issue => issue.severity === 'error' && !issue.skipped);
+    if (blockingIssues.length > 0) {
+      setError(other
+        ? `Fix ${blockingIssues.length} error(s) in ${other.marketLabel} before ${action.toLowerCase()}ing; open its tab to see them in the validation report.`
+        : `Fix ${blockingIssues.length} error(s) listed in the validation report before ${action.toLowerCase()}ing.`);
+      return false;
+    }
+    const skippedCount = rowIssues.filter(issue => issue.skipped).length;
+    const warningCount = rowIssues.filter(issue => issue.severity === 'warning').length;
+    return (skippedCount === 0 && warningCount === 0) ||
+      window.confirm(`${other ? `${other.marketLabel}: ` : ''}${skippedCount} row(s) were skipped and there are ${warningCount} warning(s). ${action} anyway?`);
+  }, [issuesForRows]);
+
+  // Every written file is also kept in the history, together with the rows and input behind it.
+  // issues go into the XLSX workbook's issue sheet.
+  const writeExport = useCallback(async (rows: ProcessedGameData[], columns: OutputColumnKey[], fileBaseName: string, profileName: string, marketId: string, issues: ValidationIssue[]) => {
+    if (columns.length === 0) {
+      setError(`The column profile "${profileName}" has no columns.`);
       return;
     }
     try {
-      const csvContent = generateCsvContent(processedData, OUTPUT_CSV_COLUMNS);
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const link = document.createElement("a");
-      const url = URL.createObjectURL(blob);
-      
-      const now = new Date();
-      const year = now.getFullYear();
-      const month = String(now.getMonth() + 1).padStart(2, '0');
-      const day = String(now.getDate()).padStart(2, '0');
-      const hours = String(now.getHours()).padStart(2, '0');
-      const minutes = String(now.getMinutes()).padStart(2, '0');
-      const seconds = String(now.getSeconds()).padStart(2, '0');
-      const timestamp = `${year}-${month}-${day}_${hours}-${minutes}-${seconds}`;
-      const fileName = `processed_game_data_${timestamp}.csv`;
-
-      link.setAttribute("href", url);
-      link.setAttribute("download", fileName);
-      link.style.visibility = 'hidden';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      const content = await runJobInWorker({ kind: 'export', rows, columns, options: outputOptions, issues });
+      const { extension, mimeType } = OUTPUT_FORMATS[outputOptions.format];
+      const fileName = `${fileBaseName}_${formatFileTimestamp(new Date())}.${extension}`;
+      const contentType = typeof content === 'string' ? `${mimeType};charset=utf-8;` : mimeType;
+      downloadFile(content, fileName, contentType);
+      addHistoryRun({
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        marketId,
+        marketLabel: getMarketLabel(marketId),
+        fileName,
+        format: outputOptions.format,
+        mimeType: contentType,
+        content,
+        rowCount: rows.length,
+        rows,
+        rawText,
+      }).then(refreshHistory, e => console.warn("Could not save the run to the history:", e));
     } catch (e) {
       if (e instanceof Error) {
-        setError(`Error generating CSV: ${e.message}`);
+        setError(`Error generating the ${OUTPUT_FORMATS[outputOptions.format].label} file: ${e.message}`);
       } else {
-        setError("An unknown error occurred while generating CSV.");
+        setError("An unknown error occurred while generating the file.");
       }
     }
-  }, [processedData]);
+  }, [outputOptions, getMarketLabel, rawText, refreshHistory]);
+
+  const activeColumnProfile = activeMarketId ? getMarketColumnProfile(activeMarketId) : selectedColumnProfile;
+
+  const exportRows = useCallback((rows: ProcessedGameData[], columns: OutputColumnKey[], fileBaseName: string) => {
+    if (confirmExport(rows) && activeMarketId) {
+      writeExport(rows, columns, `${fileBaseName}_${activeMarketId}`, activeColumnProfile.name, activeMarketId, issuesForRows(rows));
+    }
+  }, [confirmExport, writeExport, issuesForRows, activeMarketId, activeColumnProfile]);
+
+  const confirmPublish = useCallback((rows: ProcessedGameData[]) => confirmExport(rows, 'Publish'), [confirmExport]);
+
+  const handleDownloadCsv = useCallback(() => {
+    exportRows(displayedData, activeColumnProfile.columns, 'processed_game_data');
+  }, [exportRows, displayedData, activeColumnProfile]);
+
+  // One file per processed market, each with that market's rows, edits, issues and output
+  // columns. Every market is checked before the first file is written.
+  const handleDownloadAllMarkets = useCallback(async () => {
+    const files = processedMarketIds.map(marketId => {
+      const marketEdits = edits[marketId] ?? NO_CELL_EDITS;
+      const rows = applyCellEdits(marketRows[marketId], marketEdits);
+      return { marketId, rows, issues: validateRows(issuesByMarket[marketId] ?? [], marketEdits, rows, getRowChecks(marketId)) };
+    });
+    for (const file of files) {
+      if (!confirmExport(file.rows, 'Download', { marketLabel: getMarketLabel(file.marketId), rowIssues: file.issues })) return;
+    }
+    for (const { marketId, rows, issues: marketIssues } of files) {
+      const profile = getMarketColumnProfile(marketId);
+      await writeExport(rows, profile.columns, `processed_game_data_${marketId}`, profile.name, marketId, marketIssues);
+    }
+  }, [confirmExport, writeExport, issuesByMarket, getRowChecks, processedMarketIds, getMarketColumnProfile, getMarketLabel, marketRows, edits]);
+
+  const handleDiffDownload = useCallback((kind: DiffDownloadKind) => {
+    if (!diff) return;
+    if (kind === 'added') {
+      exportRows(selectRowsByStatus(displayedData, diff, 'added'), activeColumnProfile.columns, 'new_games');
+    } else if (kind === 'changed') {
+      exportRows(selectRowsByStatus(displayedData, diff, 'changed'), activeColumnProfile.columns, 'changed_games');
+    } else {
+      exportRows(selectRowsByStatus(displayedData, diff, 'changed'), changesetColumns(diff), 'changeset');
+    }
+  }, [exportRows, diff, displayedData, activeColumnProfile]);
 
   const handleClearData = useCallback(() => {
     setRawText('');
-    setProcessedData([]);
+    setMarketRows({});
+    setInputDialect(null);
+    setIssuesByMarket({});
+    setHighlightedRowIndex(null);
+    setEditHistory(EMPTY_EDIT_HISTORY);
     setError(null);
+    clearSession();
+  }, []);
+
+  const handleDownloadRun = useCallback((run: HistoryRun) => {
+    downloadFile(run.content, run.fileName, run.mimeType);
+  }, []);
+
+  // The run's rows already include the edits made before it was downloaded.
+  const handleReopenRun = useCallback((run: HistoryRun) => {
+    setRawText(run.rawText);
+    setMarketRows({ [run.marketId]: run.rows });
+    setActiveMarketId(run.marketId);
+    setInputDialect(null);
+    setIssuesByMarket({});
+    setHighlightedRowIndex(null);
+    setEditHistory(EMPTY_EDIT_HISTORY);
+    setError(null);
+  }, []);
+
+  const handleCompareRun = useCallback((run: HistoryRun) => {
+    if (!isDelimitedRun(run)) {
+      setError(`${run.fileName} can't be compared; only CSV and TSV runs can.`);
+      return;
+    }
+    try {
+      setBaseline(parseBaselineExport(run.content, run.fileName));
+    } catch (e) {
+      setError(`Could not compare with ${run.fileName}: ${e instanceof Error ? e.message : e}`);
+    }
   }, []);
 
+  const handleDeleteRun = useCallback((run: HistoryRun) => {
+    deleteHistoryRun(run.id).then(refreshHistory, e => console.warn("Could not delete the run:", e));
+  }, [refreshHistory]);
+
+  const handleClearHistory = useCallback(() => {
+    clearHistory().then(refreshHistory, e => console.warn("Could not clear the history:", e));
+  }, [refreshHistory]);
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col items-center p-4 selection:bg-sky-500 selection:text-white">
-      <Header title={APP_TITLE} subtitle="Paste tab-separated game data from Monday.com." />
+      <Header title={APP_TITLE} subtitle="Import or paste game data from Monday.com: TSV, CSV, XLSX or JSON." />
       
       <main className="w-full max-w-5xl mt-8 space-y-8">
         <section className="bg-slate-800 p-6 rounded-lg shadow-xl">
-          <h2 className="text-2xl font-semibold text-[#66acde] mb-4">1. Paste Game Data</h2>
+          <h2 className="text-2xl font-semibold text-[#66acde] mb-4">1. Import or Paste Game Data</h2>
+          <FileDropZone onImport={handleImportText} />
+          <MondaySourcePanel headerMappings={headerMappings} onImport={handleImportText} />
           <TextInputArea
             value={rawText}
             onChange={setRawText}
-            placeholder={`Paste your tab-separated game data here. Ensure the first row contains all necessary headers. ${PLACEHOLDER_INFO_REQUIRED_COLUMNS}`}
+            placeholder={`Paste your tab, comma or semicolon separated game data here. Ensure the first row contains all necessary headers. ${PLACEHOLDER_INFO_REQUIRED_COLUMNS}`}
           />
           <div className="mt-6 flex flex-wrap gap-4 items-center">
+            <div className="flex flex-wrap gap-3 items-center text-sm text-slate-300" role="group" aria-label="Markets to process">
+              {marketProfiles.map(market => (
+                <label key={market.id} className="flex items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={selectedMarketIds.includes(market.id)}
+                    onChange={() => handleToggleMarket(market.id)}
+                    className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-sky-500 focus:ring-sky-500"
+                  />
+                  {market.label}
+                </label>
+              ))}
+            </div>
             <ActionButton
-              onClick={() => handleProcessData(GAME_PROVIDER_TO_FOLDER_MAP_CA, ".CA")}
-              disabled={isLoading || !rawText.trim()}
+              onClick={() => handleProcessData()}
+              disabled={isLoading || !rawText.trim() || selectedMarkets.length === 0}
               className="bg-sky-600 hover:bg-sky-500 disabled:bg-sky-800 disabled:text-slate-500 transition-colors"
               icon={<ProcessIcon />}
             >
-              {isLoading ? 'Processing...' : 'Process: .CA'}
-            </ActionButton>
-            <ActionButton
-              onClick={() => handleProcessData(GAME_PROVIDER_TO_FOLDER_MAP_COM, ".COM")}
-              disabled={isLoading || !rawText.trim()}
-              className="bg-indigo-600 hover:bg-indigo-500 disabled:bg-indigo-800 disabled:text-slate-500 transition-colors"
-              icon={<ProcessIcon />}
-            >
-              {isLoading ? 'Processing...' : 'Process: .COM'}
+              {isLoading ? 'Processing...' : `Process: ${selectedMarkets.map(market => market.label).join(', ') || 'no market'}`}
             </ActionButton>
             <ActionButton
               onClick={handleClearData}
@@ -132,8 +602,41 @@ const App: React.FC = () => {
               Clear Data
             </ActionButton>
           </div>
+          {Object.keys(headerMappings).length > 0 && (
+            <p className="mt-3 text-sm text-slate-400">
+              Using {Object.keys(headerMappings).length} remembered column mapping(s).{' '}
+              <button type="button" onClick={() => setHeaderMappings({})} className="text-sky-300 hover:text-sky-100 underline">
+                Forget
+              </button>
+            </p>
+          )}
         </section>
 
+        <MarketProfilesPanel
+          markets={marketProfiles}
+          columnProfiles={columnProfiles}
+          onChange={handleMarketsChange}
+          onRenameId={handleRenameMarketId}
+        />
+
+        <ProviderRegistryEditor rules={providerRules} onChange={setProviderRules} marketIds={marketProfiles.map(market => market.id)} />
+
+        <ColumnProfilesPanel
+          profiles={columnProfiles}
+          selectedProfileId={selectedColumnProfile.id}
+          onSelect={setSelectedColumnProfileId}
+          onChange={setColumnProfiles}
+        />
+
+        <HistoryPanel
+          runs={historyRuns}
+          onDownload={handleDownloadRun}
+          onReopen={handleReopenRun}
+          onCompare={handleCompareRun}
+          onDelete={handleDeleteRun}
+          onClear={handleClearHistory}
+        />
+
         {error && (
           <section className="bg-red-800 p-4 rounded-lg shadow-md text-red-100">
             <h3 className="font-semibold">Error:</h3>
@@ -141,10 +644,28 @@ const App: React.FC = () => {
           </section>
         )}
 
+        {!isLoading && (
+          <ValidationPanel
+            issues={allIssues}
+            marketLabel={processedMarketIds.length > 1 && activeMarketId ? getMarketLabel(activeMarketId) : undefined}
+            onSelectIssue={handleSelectIssue}
+            onAddProviderMapping={handleAddProviderMapping}
+            onApplySuggestion={handleApplySuggestion}
+          />
+        )}
+
         {isLoading && (
-           <div className="flex justify-center items-center p-6">
+           <div className="flex justify-center items-center gap-3 p-6">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-[#66acde]"></div>
-            <p className="ml-3 text-sky-300">Processing data, please wait...</p>
+            <div className="w-64 space-y-2">
+              <p className="text-sky-300">Processing data, please wait... {Math.round(processingProgress * 100)}%</p>
+              <div className="h-2 bg-slate-700 rounded" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(processingProgress * 100)}>
+                <div className="h-2 bg-[#66acde] rounded transition-[width]" style={{ width: `${processingProgress * 100}%` }} />
+              </div>
+            </div>
+            <button type="button" onClick={handleCancelProcessing} className="px-3 py-1.5 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors">
+              Cancel
+            </button>
           </div>
         )}
 
@@ -154,23 +675,109 @@ const App: React.FC = () => {
               <TableIcon className="w-8 h-8 text-[#66acde] mr-3" />
               <h2 className="text-2xl font-semibold text-[#66acde]">2. Processed Data Preview</h2>
             </div>
-            <DataTable data={processedData} columns={OUTPUT_CSV_COLUMNS} />
-            <ActionButton
-              onClick={handleDownloadCsv}
-              disabled={processedData.length === 0}
-              className="mt-6 bg-emerald-600 hover:bg-emerald-500 disabled:bg-emerald-800 disabled:text-slate-500 transition-colors"
-              icon={<DownloadIcon />}
-            >
-              Download CSV
-            </ActionButton>
+            {inputDialect && (
+              <p className="mb-4 text-sm text-slate-400">Detected input: {describeDialect(inputDialect)}</p>
+            )}
+            {processedMarketIds.length > 1 && (
+              <div className="mb-4 flex flex-wrap gap-2 items-center text-sm" role="tablist">
+                {processedMarketIds.map(marketId => (
+                  <button
+                    key={marketId}
+                    type="button"
+                    role="tab"
+                    aria-selected={marketId === activeMarketId}
+                    onClick={() => setActiveMarketId(marketId)}
+                    className={`px-3 py-1.5 rounded-md transition-colors ${marketId === activeMarketId ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                  >
+                    {getMarketLabel(marketId)}
+                  </button>
+                ))}
+                <span className="text-slate-400 ml-2">Edits carry over to markets that derive the same value for the cell.</span>
+              </div>
+            )}
+            <DiffPanel baseline={baseline} diff={diff} onBaselineChange={setBaseline} onDownload={handleDiffDownload} />
+            <ImageManifestPanel manifest={imageManifest} problemCount={imageIssues.length} onManifestChange={setImageManifest} />
+            <DuplicateConflictsPanel
+              conflicts={duplicateConflicts}
+              rows={displayedData}
+              onResolve={handleResolveDuplicates}
+              onSelectRow={setHighlightedRowIndex}
+            />
+            <div className="mb-2 flex flex-wrap gap-2 items-center text-sm">
+              <span className="text-slate-400 mr-2">Click a cell to edit. {countCellEdits(activeEdits)} edited cell(s).</span>
+              <button type="button" onClick={handleUndo} disabled={editHistory.past.length === 0} className="px-3 py-1 rounded-md bg-slate-600 hover:bg-slate-500 disabled:opacity-50 disabled:cursor-not-allowed" title="Undo (Ctrl+Z)">
+                Undo
+              </button>
+              <button type="button" onClick={handleRedo} disabled={editHistory.future.length === 0} className="px-3 py-1 rounded-md bg-slate-600 hover:bg-slate-500 disabled:opacity-50 disabled:cursor-not-allowed" title="Redo (Ctrl+Shift+Z)">
+                Redo
+              </button>
+              <button type="button" onClick={handleResetMarketEdits} disabled={countCellEdits(activeEdits) === 0} className="px-3 py-1 rounded-md bg-slate-600 hover:bg-slate-500 disabled:opacity-50 disabled:cursor-not-allowed">
+                {processedMarketIds.length > 1 && activeMarketId ? `Reset ${getMarketLabel(activeMarketId)} Edits` : 'Reset All Edits'}
+              </button>
+            </div>
+            <DataTable
+              data={displayedData}
+              columns={activeColumnProfile.columns}
+              highlightedRowIndex={highlightedRowIndex}
+              rowSeverities={rowSeverities}
+              rowDiffs={rowDiffs}
+              derivedData={processedData}
+              edits={activeEdits}
+              onCellEdit={handleCellEdit}
+              onCellReset={handleCellReset}
+              resolveImageUrl={resolveImageUrl}
+              onShowDetails={setDetailRowIndex}
+            />
+            <div className="mt-6 flex flex-wrap gap-4 items-center">
+              <ActionButton
+                onClick={handleDownloadCsv}
+                disabled={processedData.length === 0}
+                className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-emerald-800 disabled:text-slate-500 transition-colors"
+                icon={<DownloadIcon />}
+              >
+                Download {OUTPUT_FORMATS[outputOptions.format].extension.toUpperCase()}
+              </ActionButton>
+              {processedMarketIds.length > 1 && (
+                <ActionButton
+                  onClick={handleDownloadAllMarkets}
+                  className="bg-emerald-700 hover:bg-emerald-600 transition-colors"
+                  icon={<DownloadIcon />}
+                  title="One file per processed market"
+                >
+                  Download All Markets ({processedMarketIds.length} files)
+                </ActionButton>
+              )}
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                Columns
+                <select
+                  value={activeColumnProfile.id}
+                  onChange={(e) => setSelectedColumnProfileId(e.target.value)}
+                  disabled={activeColumnProfile !== selectedColumnProfile}
+                  title={activeColumnProfile !== selectedColumnProfile ? "Set by the market profile" : undefined}
+                  className="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-sm text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                >
+                  {columnProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                </select>
+              </label>
+              <OutputOptionsForm options={outputOptions} onChange={setOutputOptions} />
+            </div>
           </section>
+        )}
+        {!isLoading && processedData.length > 0 && activeMarketId && (
+          <CmsPublishPanel rows={displayedData} columns={activeColumnProfile.columns} marketLabel={getMarketLabel(activeMarketId)} confirmPublish={confirmPublish} />
         )}
          {!isLoading && processedData.length === 0 && rawText.trim() && !error && (
             <section className="bg-slate-800 p-6 rounded-lg shadow-xl text-center">
-                 <p className="text-slate-400">No data to display. Please check your input or click one of the process buttons. If you've processed data and see this, there might have been no valid rows meeting criteria.</p>
+                 <p className="text-slate-400">No data to display. Please check your input or click the process button. If you've processed data and see this, there might have been no valid rows meeting criteria.</p>
             </section>
         )}
       </main>
+      {detailRowIndex !== null && displayedData[detailRowIndex] && (
+        <GameDetailDrawer row={displayedData[detailRowIndex]} resolveImageUrl={resolveImageUrl} onClose={() => setDetailRowIndex(null)} />
+      )}
+      {missingHeaders && (
+        <HeaderMappingDialog error={missingHeaders} onApply={handleApplyHeaderMappings} onCancel={() => setMissingHeaders(null)} />
+      )}
        <footer className="w-full max-w-5xl mt-12 py-6 border-t border-slate-700 text-center text-sm text-slate-500">
         <p>&copy; {new Date().getFullYear()} Created by Bob Fox. Built with React & Tailwind CSS.</p>
       </footer>
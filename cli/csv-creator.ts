@@ -0,0 +1,186 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { CsvOutputOptions, MarketProfile, OutputFormat, ProviderRule, ValidationIssue } from '../types';
+import { DEFAULT_MARKET_PROFILES, DEFAULT_PROVIDER_RULES, OUTPUT_CSV_COLUMNS, OUTPUT_FORMATS } from '../constants';
+import { parsePastedData } from '../services/dataProcessor';
+import { generateExportContent } from '../services/exporters';
+import { parseProviderRulesJson } from '../services/providerRegistry';
+import { describeDialect } from '../services/delimitedText';
+import { findDuplicateConflicts, conflictsToIssues } from '../services/duplicateDetection';
+
+const USAGE = `Usage: csv-creator convert [input] [options]
+
+Converts a Monday.com export (tab, comma or semicolon separated) into the portal import file.
+
+Arguments:
+  input                 Input file; omit or use "-" to read stdin
+
+Options:
+  -m, --market <id>     Market profile ID, case-insensitive (default: ${DEFAULT_MARKET_PROFILES[0].id}; available: ${DEFAULT_MARKET_PROFILES.map(m => m.id).join(', ')})
+  -f, --format <name>   Output format: ${Object.keys(OUTPUT_FORMATS).join(', ')} (default: csv)
+  -o, --output <file>   Output file; omit or use "-" to write stdout
+      --providers <file> Provider rules JSON exported from the app (default: built-in rules)
+      --bom             Prefix delimited output with a UTF-8 byte order mark
+      --crlf            Use Windows (CRLF) line endings in delimited output
+      --validate-only   Validate without writing output
+      --report <file>   Write the validation report as JSON; "-" writes it to stdout
+  -h, --help            Show this help
+
+Exit codes: 0 success, 1 validation errors, 2 usage or input errors.`;
+
+// Usage problems exit with 2 so scripts can tell them apart from validation failures.
+class UsageError extends Error {}
+
+interface ValidationReport {
+  input: string;
+  market: string;
+  dialect: string;
+  rowCount: number;
+  errorCount: number;
+  warningCount: number;
+  skippedCount: number;
+  issues: ValidationIssue[];
+}
+
+function readInput(path: string): string {
+  try {
+    return readFileSync(path === '-' ? 0 : path, 'utf8');
+  } catch (e) {
+    throw new UsageError(`Could not read ${path === '-' ? 'stdin' : path}: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+function writeOutput(path: string, content: string | Uint8Array): void {
+  if (path === '-') {
+    process.stdout.write(content);
+  } else {
+    writeFileSync(path, content);
+  }
+}
+
+function findMarket(id: string): MarketProfile {
+  const market = DEFAULT_MARKET_PROFILES.find(m => m.id.toLowerCase() === id.toLowerCase());
+  if (!market) {
+    throw new UsageError(`Unknown market "${id}". Available: ${DEFAULT_MARKET_PROFILES.map(m => m.id).join(', ')}.`);
+  }
+  return market;
+}
+
+function loadProviderRulesFile(path: string | undefined): ProviderRule[] {
+  if (!path) return DEFAULT_PROVIDER_RULES;
+  try {
+    return parseProviderRulesJson(readInput(path));
+  } catch (e) {
+    throw new UsageError(`Invalid provider rules in ${path}: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  const column = issue.column ? ` [${issue.column}]` : '';
+  return `  line ${issue.line}${column} ${issue.severity}${issue.skipped ? ' (skipped)' : ''}: ${issue.message}`;
+}
+
+async function convert(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      market: { type: 'string', short: 'm', default: DEFAULT_MARKET_PROFILES[0].id },
+      format: { type: 'string', short: 'f', default: 'csv' },
+      output: { type: 'string', short: 'o', default: '-' },
+      providers: { type: 'string' },
+      bom: { type: 'boolean', default: false },
+      crlf: { type: 'boolean', default: false },
+      'validate-only': { type: 'boolean', default: false },
+      report: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length > 1) {
+    throw new UsageError(`Expected at most one input file, got ${positionals.length}.`);
+  }
+  if (!(values.format in OUTPUT_FORMATS)) {
+    throw new UsageError(`Unknown format "${values.format}". Use one of: ${Object.keys(OUTPUT_FORMATS).join(', ')}.`);
+  }
+  const validateOnly = values['validate-only'];
+  if (values.report === '-' && !validateOnly && values.output === '-') {
+    throw new UsageError('The report and the converted output cannot both go to stdout; pass --output or --validate-only.');
+  }
+
+  const inputPath = positionals[0] ?? '-';
+  const market = findMarket(values.market);
+  const providerRules = loadProviderRulesFile(values.providers);
+
+  let result;
+  try {
+    result = parsePastedData(readInput(inputPath), providerRules, market);
+  } catch (e) {
+    if (e instanceof UsageError) throw e;
+    throw new UsageError(e instanceof Error ? e.message : String(e));
+  }
+
+  // Same checks the browser runs before enabling a download.
+  const issues = [...result.issues, ...conflictsToIssues(result.rows, findDuplicateConflicts(result.rows))]
+    .sort((a, b) => a.line - b.line);
+  const report: ValidationReport = {
+    input: inputPath === '-' ? 'stdin' : inputPath,
+    market: market.id,
+    dialect: describeDialect(result.dialect),
+    rowCount: result.rows.length,
+    errorCount: issues.filter(issue => issue.severity === 'error' && !issue.skipped).length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length,
+    skippedCount: issues.filter(issue => issue.skipped).length,
+    issues,
+  };
+
+  if (values.report) {
+    writeOutput(values.report, JSON.stringify(report, null, 2) + '\n');
+  }
+  if (values.report !== '-') {
+    console.error(`${report.rowCount} row(s) for ${market.label}: ${report.errorCount} error(s), ${report.warningCount} warning(s), ${report.skippedCount} skipped row(s).`);
+    issues.forEach(issue => console.error(formatIssue(issue)));
+  }
+
+  if (report.errorCount > 0) {
+    if (!validateOnly) console.error('No output written; fix the errors above first.');
+    return 1;
+  }
+  if (!validateOnly) {
+    const options: CsvOutputOptions = {
+      format: values.format as OutputFormat,
+      includeBom: values.bom,
+      lineEnding: values.crlf ? 'CRLF' : 'LF',
+    };
+    writeOutput(values.output, await generateExportContent(result.rows, OUTPUT_CSV_COLUMNS, options, issues));
+  }
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  try {
+    if (command === 'convert') {
+      return await convert(rest);
+    }
+    if (command === undefined || command === '-h' || command === '--help' || command === 'help') {
+      console.log(USAGE);
+      return command === undefined ? 2 : 0;
+    }
+    throw new UsageError(`Unknown command "${command}".`);
+  } catch (e) {
+    // parseArgs reports unknown or malformed options as TypeErrors with an ERR_PARSE_ARGS_* code.
+    const isArgError = e instanceof UsageError || (e as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+    if (!isArgError) throw e;
+    console.error(`csv-creator: ${(e as Error).message}\nRun "csv-creator --help" for usage.`);
+    return 2;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
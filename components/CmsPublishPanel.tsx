@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { CmsPublishFormat, CmsPublishSettings, CmsRowResult, CmsRowStatus, OutputColumnKey, ProcessedGameData } from '../types';
+import { canRetryFailedRows, loadCmsPublishSettings, mergeCmsResults, publishToCms, saveCmsPublishSettings } from '../services/cmsPublish';
+
+interface CmsPublishPanelProps {
+  rows: ProcessedGameData[]; // The active market's rows with edits, as downloaded
+  columns: OutputColumnKey[];
+  marketLabel: string;
+  confirmPublish: (rows: ProcessedGameData[]) => boolean; // Same gate as a download
+}
+
+interface PublishRun {
+  dryRun: boolean;
+  marketLabel: string; // Failed rows are retried from the current rows while market and games still match
+  results: CmsRowResult[];
+}
+
+const secondaryButtonClassName = "px-3 py-1.5 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const inputClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-sm text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+const statusStyles: Record<CmsRowStatus, string> = {
+  accepted: 'text-emerald-300',
+  rejected: 'text-red-300',
+  failed: 'text-amber-300',
+};
+
+/**
+ * Sends the processed rows to the portal CMS import endpoint instead of uploading the
+ * downloaded file by hand. A dry run lets the CMS validate the rows without importing
+ * them; the per-row verdicts are listed, and rows whose chunk never got through can be
+ * sent again. The auth header value is kept in memory only.
+ */
+export const CmsPublishPanel: React.FC<CmsPublishPanelProps> = ({ rows, columns, marketLabel, confirmPublish }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<CmsPublishSettings>(loadCmsPublishSettings);
+  const [authValue, setAuthValue] = useState('');
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; count: number } | null>(null);
+  const [publishError, setPublishError] = useState<string | null>(null);
+  const [run, setRun] = useState<PublishRun | null>(null);
+
+  useEffect(() => {
+    saveCmsPublishSettings(settings);
+  }, [settings]);
+
+  const updateSettings = (changes: Partial<CmsPublishSettings>) => setSettings(current => ({ ...current, ...changes }));
+
+  const send = async (rowsToSend: ProcessedGameData[], dryRun: boolean): Promise<CmsRowResult[] | null> => {
+    setIsPublishing(true);
+    setPublishError(null);
+    setProgress(null);
+    try {
+      return await publishToCms(rowsToSend, columns, settings, {
+        dryRun,
+        authValue,
+        onProgress: (done, count) => setProgress({ done, count }),
+      });
+    } catch (e) {
+      setPublishError(e instanceof Error ? e.message : "Publishing failed.");
+      return null;
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handlePublish = async (dryRun: boolean) => {
+    if (!dryRun && !confirmPublish(rows)) return;
+    const results = await send(rows, dryRun);
+    if (results) setRun({ dryRun, marketLabel, results });
+  };
+
+  // Sends the failed rows as they are now, so edits made since the publish are included.
+  const handleRetryFailed = async () => {
+    if (!run || rowsReplaced) return;
+    const failedIndexes = run.results.filter(result => result.status === 'failed').map(result => result.rowIndex);
+    const failedRows = failedIndexes.map(index => rows[index]);
+    if (!run.dryRun && !confirmPublish(failedRows)) return;
+    const results = await send(failedRows, run.dryRun);
+    if (results) setRun({ ...run, results: mergeCmsResults(run.results, failedIndexes, results) });
+  };
+
+  const countOf = (status: CmsRowStatus) => run?.results.filter(result => result.status === status).length ?? 0;
+  // Switching market, re-processing or removing duplicates changes which row is at each index.
+  const rowsReplaced = run !== null && (run.marketLabel !== marketLabel || !canRetryFailedRows(run.results, rows));
+  const canPublish = !isPublishing && rows.length > 0 && columns.length > 0 && settings.endpoint.trim() !== '';
+
+  return (
+    <section className="bg-slate-800 p-6 rounded-lg shadow-xl">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <h2 className="text-2xl font-semibold text-[#66acde]">Publish to CMS</h2>
+        <span className="text-sm text-slate-400">{marketLabel}, {rows.length} row(s) {isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4 text-sm">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1 text-slate-300 md:col-span-2">
+              Import endpoint
+              <input type="url" value={settings.endpoint} onChange={(e) => updateSettings({ endpoint: e.target.value })} placeholder="https://cms.example.com/api/games/import" className={inputClassName} />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-300">
+              Auth header
+              <input type="text" value={settings.authHeaderName} onChange={(e) => updateSettings({ authHeaderName: e.target.value })} placeholder="Authorization" className={inputClassName} />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-300">
+              Header value (not saved)
+              <input type="password" value={authValue} onChange={(e) => setAuthValue(e.target.value)} placeholder="Bearer ..." autoComplete="off" className={inputClassName} />
+            </label>
+            <div className="flex flex-wrap gap-3 md:col-span-2">
+              <label className="flex items-center gap-2 text-slate-300">
+                Send as
+                <select value={settings.format} onChange={(e) => updateSettings({ format: e.target.value as CmsPublishFormat })} className={inputClassName}>
+                  <option value="csv">CSV</option>
+                  <option value="json">JSON</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-slate-300">
+                Rows per request
+                <input type="number" min={1} value={settings.chunkSize} onChange={(e) => updateSettings({ chunkSize: Number(e.target.value) })} className={`${inputClassName} w-24`} />
+              </label>
+              <label className="flex items-center gap-2 text-slate-300">
+                Retries
+                <input type="number" min={0} max={10} value={settings.maxRetries} onChange={(e) => updateSettings({ maxRetries: Number(e.target.value) })} className={`${inputClassName} w-20`} />
+              </label>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2 items-center">
+            <button type="button" onClick={() => handlePublish(true)} disabled={!canPublish} className={secondaryButtonClassName} title="The CMS checks the rows without importing them">
+              Dry Run
+            </button>
+            <button type="button" onClick={() => handlePublish(false)} disabled={!canPublish} className="px-3 py-1.5 text-sm rounded-md bg-emerald-600 hover:bg-emerald-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+              Publish {rows.length} Row(s)
+            </button>
+            {run && countOf('failed') > 0 && (
+              <button
+                type="button"
+                onClick={handleRetryFailed}
+                disabled={isPublishing || rowsReplaced}
+                className={secondaryButtonClassName}
+                title={rowsReplaced ? "The rows changed since this publish; publish them again instead" : "Sends the failed rows with any edits made since"}
+              >
+                Retry {countOf('failed')} Failed Row(s)
+              </button>
+            )}
+            {isPublishing && <span className="text-slate-400">{progress ? `Sent ${progress.done} of ${progress.count} chunk(s)...` : 'Publishing...'}</span>}
+          </div>
+          {publishError && <p className="text-red-300">{publishError}</p>}
+
+          {run && (
+            <div className="space-y-2">
+              <p className="text-slate-300">
+                {run.dryRun ? 'Dry run' : 'Publish'}: <span className={statusStyles.accepted}>{countOf('accepted')} accepted</span>,{' '}
+                <span className={statusStyles.rejected}>{countOf('rejected')} rejected</span>,{' '}
+                <span className={statusStyles.failed}>{countOf('failed')} failed</span>
+              </p>
+              <div className="max-h-72 overflow-y-auto border border-slate-700 rounded-md">
+                <table className="min-w-full divide-y divide-slate-700">
+                  <thead className="bg-slate-700 sticky top-0">
+                    <tr className="text-left text-slate-300">
+                      <th className="px-3 py-2 font-medium">Row</th>
+                      <th className="px-3 py-2 font-medium">Game Code</th>
+                      <th className="px-3 py-2 font-medium">Result</th>
+                      <th className="px-3 py-2 font-medium">Message</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {run.results.map(result => (
+                      <tr key={result.rowIndex} className="text-slate-300">
+                        <td className="px-3 py-1.5">{result.rowIndex + 1}</td>
+                        <td className="px-3 py-1.5 font-mono text-xs">{result.gameCode}</td>
+                        <td className={`px-3 py-1.5 ${statusStyles[result.status]}`}>{result.status}</td>
+                        <td className="px-3 py-1.5 text-slate-400">{result.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
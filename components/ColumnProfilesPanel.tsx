@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { ColumnProfile, OutputColumnKey } from '../types';
+import { OUTPUT_CSV_COLUMNS } from '../constants';
+import { createColumnProfile, moveColumn } from '../services/columnProfiles';
+import { getColumnDisplayName } from './DataTable';
+
+interface ColumnProfilesPanelProps {
+  profiles: ColumnProfile[];
+  selectedProfileId: string;
+  onSelect: (profileId: string) => void;
+  onChange: (profiles: ColumnProfile[]) => void;
+}
+
+const secondaryButtonClassName = "px-3 py-1.5 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const inputClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-sm text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+export const ColumnProfilesPanel: React.FC<ColumnProfilesPanelProps> = ({ profiles, selectedProfileId, onSelect, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [columnToAdd, setColumnToAdd] = useState<OutputColumnKey | ''>('');
+
+  const profile = profiles.find(p => p.id === selectedProfileId) ?? profiles[0];
+  const isReadOnly = Boolean(profile.builtIn);
+  const availableColumns = OUTPUT_CSV_COLUMNS.filter(column => !profile.columns.includes(column));
+
+  const updateProfile = (changes: Partial<ColumnProfile>) => {
+    onChange(profiles.map(p => (p.id === profile.id ? { ...p, ...changes } : p)));
+  };
+
+  const handleDuplicate = () => {
+    const copy = createColumnProfile(`${profile.name} (copy)`, profile.columns);
+    onChange([...profiles, copy]);
+    onSelect(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the column profile "${profile.name}"?`)) {
+      onChange(profiles.filter(p => p.id !== profile.id));
+      onSelect(profiles[0].id);
+    }
+  };
+
+  const handleDrop = (toIndex: number) => {
+    if (dragIndex !== null && dragIndex !== toIndex) {
+      updateProfile({ columns: moveColumn(profile.columns, dragIndex, toIndex) });
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <section className="bg-slate-800 p-6 rounded-lg shadow-xl">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <h2 className="text-2xl font-semibold text-[#66acde]">Column Profiles</h2>
+        <span className="text-sm text-slate-400">{profile.name}: {profile.columns.length} columns {isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap gap-2 items-center">
+            <select value={profile.id} onChange={(e) => onSelect(e.target.value)} className={inputClassName}>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}{p.builtIn ? ' (built-in)' : ''}</option>)}
+            </select>
+            {!isReadOnly && (
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => updateProfile({ name: e.target.value })}
+                className={inputClassName}
+                aria-label="Profile name"
+              />
+            )}
+            <button type="button" onClick={handleDuplicate} className={secondaryButtonClassName}>Duplicate</button>
+            <button type="button" onClick={handleDelete} disabled={isReadOnly} className={secondaryButtonClassName}>Delete</button>
+          </div>
+
+          {isReadOnly && (
+            <p className="text-sm text-slate-400">Built-in profiles can't be changed. Duplicate this one to create your own.</p>
+          )}
+
+          {!isReadOnly && (
+            <div className="flex flex-wrap gap-2 items-center">
+              <select value={columnToAdd} onChange={(e) => setColumnToAdd(e.target.value as OutputColumnKey | '')} className={inputClassName}>
+                <option value="">Add column…</option>
+                {availableColumns.map(column => <option key={column} value={column}>{getColumnDisplayName(column)} ({column})</option>)}
+              </select>
+              <button
+                type="button"
+                onClick={() => { if (columnToAdd) { updateProfile({ columns: [...profile.columns, columnToAdd] }); setColumnToAdd(''); } }}
+                disabled={!columnToAdd}
+                className={secondaryButtonClassName}
+              >
+                Add
+              </button>
+              <button type="button" onClick={() => updateProfile({ columns: [] })} disabled={profile.columns.length === 0} className={secondaryButtonClassName}>
+                Remove All
+              </button>
+            </div>
+          )}
+
+          <ol className="max-h-80 overflow-y-auto space-y-1">
+            {profile.columns.map((column, index) => (
+              <li
+                key={column}
+                draggable={!isReadOnly}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => { if (!isReadOnly) e.preventDefault(); }}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => setDragIndex(null)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded bg-slate-700 text-sm ${isReadOnly ? '' : 'cursor-move'} ${dragIndex === index ? 'opacity-50' : ''}`}
+              >
+                <span className="w-8 text-right text-slate-500 font-mono">{index + 1}</span>
+                <span className="text-slate-200">{getColumnDisplayName(column)}</span>
+                <span className="text-slate-500 font-mono text-xs">{column}</span>
+                {!isReadOnly && (
+                  <span className="ml-auto flex gap-1">
+                    <button type="button" onClick={() => updateProfile({ columns: moveColumn(profile.columns, index, index - 1) })} disabled={index === 0} className="px-1 text-slate-400 hover:text-slate-100 disabled:opacity-30" title="Move up">↑</button>
+                    <button type="button" onClick={() => updateProfile({ columns: moveColumn(profile.columns, index, index + 1) })} disabled={index === profile.columns.length - 1} className="px-1 text-slate-400 hover:text-slate-100 disabled:opacity-30" title="Move down">↓</button>
+                    <button type="button" onClick={() => updateProfile({ columns: profile.columns.filter(c => c !== column) })} className="px-1 text-slate-400 hover:text-red-300" title="Remove column">✕</button>
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -1,13 +1,63 @@
 
-import React from 'react';
-import { ProcessedGameData } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ProcessedGameData, IssueSeverity, CellEdits, OutputColumnKey, RowDiff, ImageSource, TableViewState, TableColumnLayout } from '../types';
+import { IMAGE_OUTPUT_FIELDS, BOOLEAN_OUTPUT_FIELDS } from '../constants';
+import { EditableCell } from './EditableCell';
+import { ImageThumbnail } from './ImageThumbnail';
+import { TableControls } from './TableControls';
+import { isCellEdited } from '../services/cellEdits';
+import { formatCellValue } from '../services/dataProcessor';
+import { EMPTY_TABLE_VIEW, selectVisibleRows, nextSort, arrangeColumns, loadTableColumnLayout, saveTableColumnLayout, rowWindow, columnWindow } from '../services/tableView';
 
 interface DataTableProps {
   data: ProcessedGameData[];
-  columns: (keyof ProcessedGameData | 'gameLabelsData_Drops and Wins')[];
+  columns: OutputColumnKey[];
+  highlightedRowIndex?: number | null; // Scrolled into view and outlined
+  rowSeverities?: Record<number, IssueSeverity>; // Most severe validation issue per row index
+  rowDiffs?: Record<number, RowDiff>; // Diff against a previous export, by row index
+  // Editing is enabled when onCellEdit is given; derivedData holds the unedited rows for reset.
+  derivedData?: ProcessedGameData[];
+  edits?: CellEdits;
+  onCellEdit?: (rowIndex: number, field: keyof ProcessedGameData, value: ProcessedGameData[keyof ProcessedGameData]) => void;
+  onCellReset?: (rowIndex: number, field: keyof ProcessedGameData) => void;
+  resolveImageUrl?: (path: string) => string; // Enables thumbnails in image columns
+  onShowDetails?: (rowIndex: number) => void; // Adds a button per row opening the game's details
 }
 
-const columnDisplayNames: Partial<Record<keyof ProcessedGameData | 'gameLabelsData_Drops and Wins', string>> = {
+const rowSeverityStyles: Record<IssueSeverity, string> = {
+  error: 'border-l-4 border-l-red-500',
+  warning: 'border-l-4 border-l-amber-400',
+};
+
+const filterInputClassName = "w-full min-w-[6rem] px-1.5 py-1 bg-slate-700 border border-slate-600 rounded text-xs font-normal normal-case tracking-normal text-slate-100 focus:ring-1 focus:ring-sky-500 focus:border-sky-500";
+
+// Text filters suggest the column's values when there are few of them, e.g. providers.
+const MAX_FILTER_SUGGESTIONS = 30;
+
+// Only the rows and columns in view are rendered, so rows have a fixed height and columns
+// a fixed width; overflowing text is cut off with an ellipsis. Rows are taller when image
+// columns show thumbnails.
+const ROW_HEIGHT = 45;
+const THUMBNAIL_ROW_HEIGHT = 65;
+const DETAILS_COLUMN_WIDTH = 88;
+const WIDE_COLUMNS: OutputColumnKey[] = ['name', 'description', 'defaultGameImage', 'urlCustomParameters'];
+
+const columnWidth = (key: OutputColumnKey): number => {
+  if (IMAGE_OUTPUT_FIELDS.includes(key)) return 300;
+  if (WIDE_COLUMNS.includes(key)) return 260;
+  if (BOOLEAN_OUTPUT_FIELDS.includes(key)) return 140;
+  return 180;
+};
+
+// Viewport size before the scroll container has been measured.
+const INITIAL_VIEWPORT = { top: 0, left: 0, width: 1200, height: 600 };
+
+export const imageSourceLabels: Record<ImageSource, string> = {
+  template: 'Generated from the layout image template',
+  copiedFromMain: 'Copied from the main image',
+};
+
+const columnDisplayNames: Partial<Record<OutputColumnKey, string>> = {
   gameCode: "Game Code",
   name: "Name",
   isActive: "Active",
@@ -107,51 +157,338 @@ const columnDisplayNames: Partial<Record<keyof ProcessedGameData | 'gameLabelsDa
 };
 
 
-export const DataTable: React.FC<DataTableProps> = ({ data, columns }) => {
+export const getColumnDisplayName = (key: OutputColumnKey): string =>
+  columnDisplayNames[key] || String(key).replace(/_/g, ' ');
+
+const renderCellValue = (
+  value: ProcessedGameData[keyof ProcessedGameData],
+  key: OutputColumnKey,
+  resolveImageUrl?: (path: string) => string
+): React.ReactNode => {
+  const text = value === undefined || value === null ? '' : String(value);
+  const isImage = IMAGE_OUTPUT_FIELDS.includes(key);
+  if (isImage && resolveImageUrl && text) {
+    return (
+      <span className="inline-flex items-center gap-2">
+        <ImageThumbnail src={resolveImageUrl(text)} alt={String(key)} className="w-10 h-10" />
+        <a
+          href={resolveImageUrl(text)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-[#66acde] transition-opacity hover:opacity-80 hover:underline"
+          title={text}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {text.length > 30 ? '…' + text.substring(text.length - 29) : text}
+        </a>
+      </span>
+    );
+  }
+  if (key === 'defaultGameImage' || (typeof value === 'string' && value.includes('file/'))) {
+    return (
+      <a
+        href={text}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-[#66acde] transition-opacity hover:opacity-80 hover:underline break-all"
+        title={text}
+        onClick={(e) => e.stopPropagation()} // Opening the link shouldn't start editing the cell
+      >
+        {text.length > 50 ? text.substring(0, 47) + '...' : text}
+      </a>
+    );
+  }
+  return text;
+};
+
+export const DataTable: React.FC<DataTableProps> = ({
+  data,
+  columns,
+  highlightedRowIndex,
+  rowSeverities,
+  rowDiffs,
+  derivedData,
+  edits = {},
+  onCellEdit,
+  onCellReset,
+  resolveImageUrl,
+  onShowDetails,
+}) => {
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<TableViewState>(EMPTY_TABLE_VIEW);
+  const [layout, setLayout] = useState<TableColumnLayout>(loadTableColumnLayout);
+  const [viewport, setViewport] = useState(INITIAL_VIEWPORT);
+
+  useEffect(() => {
+    saveTableColumnLayout(layout);
+  }, [layout]);
+
+  const displayedColumns = useMemo(() => arrangeColumns(columns, layout), [columns, layout]);
+  const pinnedCount = displayedColumns.filter(column => layout.pinned.includes(column)).length;
+  const visibleRowIndexes = useMemo(() => selectVisibleRows(data, displayedColumns, view), [data, displayedColumns, view]);
+
+  const filterSuggestions = useMemo(() => {
+    const suggestions: Partial<Record<OutputColumnKey, string[]>> = {};
+    for (const column of displayedColumns) {
+      const values = [...new Set(data.map(row => formatCellValue(row[column])).filter(Boolean))];
+      if (values.length <= MAX_FILTER_SUGGESTIONS) {
+        suggestions[column] = values.sort();
+      }
+    }
+    return suggestions;
+  }, [data, displayedColumns]);
+
+  const readViewport = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const { scrollTop: top, scrollLeft: left, clientWidth: width, clientHeight: height } = container;
+    setViewport(previous => (previous.top === top && previous.left === left && previous.width === width && previous.height === height ? previous : { top, left, width, height }));
+  };
+
+  // The scroll container only exists while there is data
+  const hasData = data.length > 0;
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    readViewport();
+    const observer = new ResizeObserver(readViewport);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [hasData]);
+
+  // The details column and the pinned columns stick to the left edge, each offset by the
+  // widths of those before it; the other columns scroll and are windowed.
+  const stickyCount = pinnedCount > 0 ? pinnedCount + (onShowDetails ? 1 : 0) : 0;
+  const stickyWidths = [...(onShowDetails ? [DETAILS_COLUMN_WIDTH] : []), ...displayedColumns.slice(0, pinnedCount).map(columnWidth)].slice(0, stickyCount);
+  const stickyOffsets = stickyWidths.map((_, position) => stickyWidths.slice(0, position).reduce((total, width) => total + width, 0));
+  const stickyWidth = stickyWidths.reduce((total, width) => total + width, 0);
+  const leadingColumns = stickyCount > 0 ? displayedColumns.slice(0, pinnedCount) : [];
+  const scrollingColumns = stickyCount > 0 ? displayedColumns.slice(pinnedCount) : displayedColumns;
+  const scrollingWidths = useMemo(() => scrollingColumns.map(columnWidth), [scrollingColumns]);
+  const unstickyDetails = onShowDetails && stickyCount === 0 ? DETAILS_COLUMN_WIDTH : 0;
+  const columnRange = columnWindow(scrollingWidths, Math.max(0, viewport.left - unstickyDetails), viewport.width - stickyWidth);
+  const tableWidth = stickyWidth + unstickyDetails + scrollingWidths.reduce((total, width) => total + width, 0);
+
+  const hasThumbnails = !!resolveImageUrl && displayedColumns.some(column => IMAGE_OUTPUT_FIELDS.includes(column));
+  const rowHeight = hasThumbnails ? THUMBNAIL_ROW_HEIGHT : ROW_HEIGHT;
+  const rowRange = rowWindow(visibleRowIndexes.length, rowHeight, viewport.top, viewport.height);
+
+  // A row picked from the validation report is scrolled to, clearing the search and
+  // filters first if they hide it.
+  const scrolledToRowRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (highlightedRowIndex === null || highlightedRowIndex === undefined) {
+      scrolledToRowRef.current = null;
+      return;
+    }
+    if (scrolledToRowRef.current === highlightedRowIndex) return;
+    const displayPosition = visibleRowIndexes.indexOf(highlightedRowIndex);
+    if (displayPosition === -1) {
+      setView(EMPTY_TABLE_VIEW);
+      return;
+    }
+    scrolledToRowRef.current = highlightedRowIndex;
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    container.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    container.scrollTo({ top: Math.max(0, displayPosition * rowHeight - (container.clientHeight - rowHeight) / 2), behavior: 'smooth' });
+  }, [highlightedRowIndex, visibleRowIndexes, rowHeight]);
+
   if (!data || data.length === 0) {
     return <p className="text-slate-400 italic">No data to display.</p>;
   }
 
+  const stickyProps = (position: number | undefined, background: string) => (position === undefined || position >= stickyCount ? {} : {
+    className: `sticky z-10 ${background} ${position === stickyCount - 1 ? 'shadow-[1px_0_0_0_rgb(71_85_105)]' : ''}`,
+    style: { left: stickyOffsets[position] ?? 0 },
+  });
+  const detailsPosition = stickyCount > 0 ? 0 : undefined;
+
+  // Pinned columns first with their sticky positions, then a spacer for the scrolling
+  // columns left of the window, the window itself and a spacer for those right of it.
+  const renderedColumns: { key: OutputColumnKey; position?: number }[] = [
+    ...leadingColumns.map((key, columnPosition) => ({ key, position: columnPosition + (onShowDetails ? 1 : 0) })),
+    ...scrollingColumns.slice(columnRange.start, columnRange.end).map(key => ({ key })),
+  ];
+  const cellCount = (onShowDetails ? 1 : 0) + renderedColumns.length + (columnRange.before > 0 ? 1 : 0) + (columnRange.after > 0 ? 1 : 0);
+  const spacerCell = (width: number, Cell: 'th' | 'td') => width > 0 && <Cell aria-hidden="true" className="p-0" style={{ width }} />;
+  const withSpacers = (cells: React.ReactNode[], Cell: 'th' | 'td') => [
+    ...cells.slice(0, leadingColumns.length),
+    <React.Fragment key="spacer-before">{spacerCell(columnRange.before, Cell)}</React.Fragment>,
+    ...cells.slice(leadingColumns.length),
+    <React.Fragment key="spacer-after">{spacerCell(columnRange.after, Cell)}</React.Fragment>,
+  ];
+
+  const setFilter = (column: OutputColumnKey, value: string) => setView({ ...view, filters: { ...view.filters, [column]: value } });
+  const detailsHeaderSticky = stickyProps(detailsPosition, 'bg-slate-800');
+  const detailsCellSticky = stickyProps(detailsPosition, 'bg-inherit');
+
+  const hasDefaultedValues = data.some(row => row.defaultedFields && row.defaultedFields.length > 0);
+  const hasFilledImages = data.some(row => row.imageSources && columns.some(column => row.imageSources?.[column]));
+
   return (
-    <div className="overflow-x-auto bg-slate-700 rounded-md shadow">
-      <table className="min-w-full divide-y divide-slate-600">
-        <thead className="bg-slate-800">
-          <tr>
-            {columns.map((key) => (
-              <th
-                key={String(key)} // Use String(key) for key prop for safety with spaced keys
-                scope="col"
-                className="px-4 py-3 text-left text-xs font-medium text-sky-300 uppercase tracking-wider whitespace-nowrap"
-              >
-                {columnDisplayNames[key] || String(key).replace(/_/g, ' ')}
-              </th>
-            ))}
-          </tr>
-        </thead>
-        <tbody className="bg-slate-700 divide-y divide-slate-600">
-          {data.map((row, rowIndex) => (
-            <tr key={rowIndex} className={`${rowIndex % 2 === 0 ? 'bg-slate-700' : 'bg-slate-750'} hover:bg-slate-600 transition-colors`}>
-              {columns.map((key) => (
-                <td key={String(key)} className="px-4 py-3 whitespace-nowrap text-sm text-slate-200">
-                  {key === 'defaultGameImage' || (typeof row[key as keyof ProcessedGameData] === 'string' && (row[key as keyof ProcessedGameData] as string).includes('file/')) ? (
-                    <a 
-                      href={String(row[key as keyof ProcessedGameData])} 
-                      target="_blank" 
-                      rel="noopener noreferrer" 
-                      className="text-[#66acde] transition-opacity hover:opacity-80 hover:underline break-all"
-                      title={String(row[key as keyof ProcessedGameData])}
+    <div>
+      {hasDefaultedValues && (
+        <p className="mb-2 text-xs text-slate-400">
+          <span className="text-amber-300 italic">Italic amber</span> values were defaulted because the column was absent, blank or invalid.
+        </p>
+      )}
+      {hasFilledImages && (
+        <p className="mb-2 text-xs text-slate-400">
+          <span className="text-violet-300">Violet</span> layout images were generated from the market's template or copied from the main image.
+        </p>
+      )}
+      <TableControls
+        view={view}
+        onViewChange={setView}
+        columns={columns}
+        layout={layout}
+        onLayoutChange={setLayout}
+        visibleCount={visibleRowIndexes.length}
+        totalCount={data.length}
+      />
+      <div ref={scrollContainerRef} onScroll={readViewport} className="overflow-auto max-h-[70vh] bg-slate-700 rounded-md shadow">
+        <table className="table-fixed divide-y divide-slate-600" style={{ width: tableWidth }}>
+          <thead className="bg-slate-800 sticky top-0 z-20">
+            <tr>
+              {onShowDetails && (
+                <th scope="col" className={`px-2 py-3 ${detailsHeaderSticky.className ?? ''}`} style={{ ...detailsHeaderSticky.style, width: DETAILS_COLUMN_WIDTH }}>
+                  <span className="sr-only">Details</span>
+                </th>
+              )}
+              {withSpacers(renderedColumns.map(({ key, position }) => {
+                const sticky = stickyProps(position, 'bg-slate-800');
+                const direction = view.sort?.column === key ? view.sort.direction : null;
+                return (
+                  <th
+                    key={String(key)} // Use String(key) for key prop for safety with spaced keys
+                    scope="col"
+                    aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : undefined}
+                    className={`px-4 pt-3 pb-2 text-left align-top text-xs font-medium text-sky-300 uppercase tracking-wider overflow-hidden ${sticky.className ?? ''}`}
+                    style={{ ...sticky.style, width: columnWidth(key) }}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setView({ ...view, sort: nextSort(view.sort, key) })}
+                      className="uppercase tracking-wider text-left hover:text-sky-100"
+                      title="Sort by this column"
                     >
-                      {String(row[key as keyof ProcessedGameData]).length > 50 ? String(row[key as keyof ProcessedGameData]).substring(0, 47) + '...' : String(row[key as keyof ProcessedGameData])}
-                    </a>
-                  ) : (
-                    String(row[key as keyof ProcessedGameData] === undefined || row[key as keyof ProcessedGameData] === null ? '' : row[key as keyof ProcessedGameData])
-                  )}
-                </td>
-              ))}
+                      {getColumnDisplayName(key)}
+                      <span className="ml-1 text-slate-400">{direction === 'asc' ? '▲' : direction === 'desc' ? '▼' : ''}</span>
+                    </button>
+                    <div className="mt-1.5">
+                      {BOOLEAN_OUTPUT_FIELDS.includes(key) ? (
+                        <select
+                          value={view.filters[key] ?? ''}
+                          onChange={(e) => setFilter(key, e.target.value)}
+                          className={filterInputClassName}
+                          aria-label={`Filter ${getColumnDisplayName(key)}`}
+                        >
+                          <option value="">Any</option>
+                          <option value="true">true</option>
+                          <option value="false">false</option>
+                        </select>
+                      ) : (
+                        <>
+                          <input
+                            type="text"
+                            value={view.filters[key] ?? ''}
+                            onChange={(e) => setFilter(key, e.target.value)}
+                            placeholder="Filter"
+                            list={filterSuggestions[key] ? `filter-values-${key}` : undefined}
+                            className={filterInputClassName}
+                            aria-label={`Filter ${getColumnDisplayName(key)}`}
+                          />
+                          {filterSuggestions[key] && (
+                            <datalist id={`filter-values-${key}`}>
+                              {filterSuggestions[key]!.map(value => <option key={value} value={value} />)}
+                            </datalist>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </th>
+                );
+              }), 'th')}
             </tr>
-          ))}
-        </tbody>
-      </table>
+          </thead>
+          <tbody className="bg-slate-700 divide-y divide-slate-600">
+            {visibleRowIndexes.length === 0 && (
+              <tr>
+                <td colSpan={cellCount} className="px-4 py-6 text-center text-slate-400 italic">
+                  No rows match the search and filters.
+                </td>
+              </tr>
+            )}
+            {rowRange.before > 0 && <tr aria-hidden="true" style={{ height: rowRange.before }}><td colSpan={cellCount} className="p-0" /></tr>}
+            {visibleRowIndexes.slice(rowRange.start, rowRange.end).map((rowIndex, windowPosition) => {
+              const row = data[rowIndex];
+              const displayPosition = rowRange.start + windowPosition;
+              const rowBackground = displayPosition % 2 === 0 ? 'bg-slate-700' : 'bg-slate-750';
+              return (
+                <tr
+                  key={rowIndex}
+                  style={{ height: rowHeight }}
+                  className={`${rowBackground} ${rowSeverities?.[rowIndex] ? rowSeverityStyles[rowSeverities[rowIndex]] : rowDiffs?.[rowIndex]?.status === 'added' ? 'border-l-4 border-l-emerald-400' : ''} ${rowIndex === highlightedRowIndex ? 'outline outline-2 outline-sky-400' : ''} hover:bg-slate-600 transition-colors`}
+                  title={rowDiffs?.[rowIndex]?.status === 'added' ? 'New game (not in the previous export)' : undefined}
+                >
+                  {onShowDetails && (
+                    <td className={`px-2 py-2 ${detailsCellSticky.className ?? ''}`} style={detailsCellSticky.style}>
+                      <button
+                        type="button"
+                        onClick={() => onShowDetails(rowIndex)}
+                        className="px-2 py-1 text-xs rounded bg-slate-600 hover:bg-slate-500 text-slate-100"
+                        title="Show all images of this game"
+                      >
+                        Images
+                      </button>
+                    </td>
+                  )}
+                  {withSpacers(renderedColumns.map(({ key, position }) => {
+                    const field = key;
+                    const isEdited = isCellEdited(edits, rowIndex, field);
+                    const isDefaulted = !isEdited && row.defaultedFields?.includes(field);
+                    const imageSource = isEdited ? undefined : row.imageSources?.[field];
+                    const previousValue = rowDiffs?.[rowIndex]?.changes[key];
+                    const isChanged = previousValue !== undefined;
+                    const content = renderCellValue(row[field], key, resolveImageUrl);
+                    // Pinned cells need an opaque background to cover the columns scrolling beneath.
+                    const sticky = stickyProps(position, isEdited ? '' : 'bg-inherit');
+                    const editedBackground = position === undefined ? 'bg-sky-900/60' : 'bg-sky-900';
+                    return (
+                      <td
+                        key={String(key)}
+                        className={`px-4 py-2 whitespace-nowrap overflow-hidden text-ellipsis text-sm ${isEdited ? `${editedBackground} text-sky-100` : isDefaulted ? 'text-amber-300 italic' : imageSource ? 'bg-violet-900/40 text-violet-300' : 'text-slate-200'} ${isChanged ? 'ring-1 ring-inset ring-emerald-400' : ''} ${sticky.className ?? ''}`}
+                        style={sticky.style}
+                        title={[
+                          isEdited && 'Edited',
+                          isDefaulted && 'Default value: column absent, blank or invalid',
+                          imageSource && imageSourceLabels[imageSource],
+                          isChanged && `Previously: ${previousValue || '(empty)'}`,
+                        ].filter(Boolean).join(' · ') || undefined}
+                      >
+                        {onCellEdit ? (
+                          <EditableCell
+                            field={field}
+                            value={row[field]}
+                            derivedValue={derivedData?.[rowIndex]?.[field]}
+                            isEdited={isEdited}
+                            onEdit={(value) => onCellEdit(rowIndex, field, value)}
+                            onReset={() => onCellReset?.(rowIndex, field)}
+                          >
+                            {content}
+                          </EditableCell>
+                        ) : content}
+                      </td>
+                    );
+                  }), 'td')}
+                </tr>
+              );
+            })}
+            {rowRange.after > 0 && <tr aria-hidden="true" style={{ height: rowRange.after }}><td colSpan={cellCount} className="p-0" /></tr>}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
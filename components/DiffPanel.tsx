@@ -0,0 +1,76 @@
+import React, { useRef, useState } from 'react';
+import { BaselineExport, DiffResult, DiffDownloadKind } from '../types';
+import { parseBaselineExport } from '../services/exportDiff';
+
+interface DiffPanelProps {
+  baseline: BaselineExport | null;
+  diff: DiffResult | null;
+  onBaselineChange: (baseline: BaselineExport | null) => void;
+  onDownload: (kind: DiffDownloadKind) => void;
+}
+
+const secondaryButtonClassName = "px-3 py-1.5 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const DiffPanel: React.FC<DiffPanelProps> = ({ baseline, diff, onBaselineChange, onDownload }) => {
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onBaselineChange(parseBaselineExport(await file.text(), file.name));
+      setLoadError(null);
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : "Could not read the previous export.");
+    }
+  };
+
+  const removed = diff?.rows.filter(row => row.status === 'removed') ?? [];
+
+  return (
+    <div className="mb-4 p-4 bg-slate-900/60 border border-slate-600 rounded-md space-y-3 text-sm">
+      <div className="flex flex-wrap gap-2 items-center">
+        <span className="font-semibold text-slate-200">Compare with previous export</span>
+        <button type="button" onClick={() => fileInputRef.current?.click()} className={secondaryButtonClassName}>
+          {baseline ? 'Replace File' : 'Load File'}
+        </button>
+        {baseline && (
+          <button type="button" onClick={() => onBaselineChange(null)} className={secondaryButtonClassName}>Clear</button>
+        )}
+        <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} className="hidden" />
+        {baseline && <span className="text-slate-400">{baseline.fileName}: {baseline.rows.length} games, also checked for slugs already in use</span>}
+      </div>
+      {loadError && <p className="text-red-300">{loadError}</p>}
+
+      {diff && (
+        <>
+          <p className="text-slate-300">
+            <span className="text-emerald-300">{diff.counts.added} added</span>,{' '}
+            <span className="text-sky-300">{diff.counts.changed} changed</span>,{' '}
+            <span className="text-red-300">{diff.counts.removed} removed</span>,{' '}
+            {diff.counts.unchanged} unchanged across {diff.comparedColumns.length + 1} shared columns.
+            New rows have a green edge; changed cells are outlined and show the previous value on hover.
+          </p>
+          {removed.length > 0 && (
+            <p className="text-slate-400">
+              Not in this paste: <span className="font-mono text-red-200">{removed.map(row => row.gameCode).join(', ')}</span>
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => onDownload('added')} disabled={diff.counts.added === 0} className={secondaryButtonClassName}>
+              Download New Rows
+            </button>
+            <button type="button" onClick={() => onDownload('changed')} disabled={diff.counts.changed === 0} className={secondaryButtonClassName}>
+              Download Changed Rows
+            </button>
+            <button type="button" onClick={() => onDownload('changeset')} disabled={diff.counts.changed === 0} className={secondaryButtonClassName} title="gameCode plus only the columns that changed">
+              Download Changeset
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
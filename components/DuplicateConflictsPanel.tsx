@@ -0,0 +1,52 @@
+import React from 'react';
+import { DuplicateConflict, DuplicateResolutionStrategy, ProcessedGameData } from '../types';
+import { UNIQUE_FIELD_SEVERITIES } from '../constants';
+
+interface DuplicateConflictsPanelProps {
+  conflicts: DuplicateConflict[];
+  rows: ProcessedGameData[];
+  onResolve: (strategy: DuplicateResolutionStrategy) => void;
+  onSelectRow: (rowIndex: number) => void;
+}
+
+const resolveButtonClassName = "px-3 py-1.5 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const DuplicateConflictsPanel: React.FC<DuplicateConflictsPanelProps> = ({ conflicts, rows, onResolve, onSelectRow }) => {
+  if (conflicts.length === 0) return null;
+
+  const hasSlugConflicts = conflicts.some(conflict => conflict.field === 'seoFriendlyGameName');
+  // Shared article ids and images are warnings only; they never remove a game.
+  const hasRowConflicts = conflicts.some(conflict => UNIQUE_FIELD_SEVERITIES[conflict.field] === 'error');
+
+  return (
+    <div className="mb-4 p-4 bg-slate-900/60 border border-red-500/60 rounded-md space-y-3">
+      <h3 className="font-semibold text-red-200">{conflicts.length} duplicate value{conflicts.length === 1 ? '' : 's'} found</h3>
+      <ul className="space-y-1 text-sm max-h-40 overflow-y-auto">
+        {conflicts.map((conflict, index) => (
+          <li key={index} className="text-slate-300">
+            <span className="font-mono text-sky-300">{conflict.field}</span> "{conflict.value}" on rows{' '}
+            {conflict.rowIndexes.map((rowIndex, i) => (
+              <React.Fragment key={rowIndex}>
+                {i > 0 && ', '}
+                <button type="button" onClick={() => onSelectRow(rowIndex)} className="text-[#66acde] hover:underline">
+                  {rows[rowIndex]?.name ?? rowIndex + 1}
+                </button>
+              </React.Fragment>
+            ))}
+          </li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={() => onResolve('keepFirst')} disabled={!hasRowConflicts} className={resolveButtonClassName} title="Drop later rows that repeat a game code or slug, in every market">
+          Keep First
+        </button>
+        <button type="button" onClick={() => onResolve('keepLast')} disabled={!hasRowConflicts} className={resolveButtonClassName} title="Drop earlier rows that repeat a game code or slug, in every market">
+          Keep Last
+        </button>
+        <button type="button" onClick={() => onResolve('suffixSlug')} disabled={!hasSlugConflicts} className={resolveButtonClassName} title="Rename repeated SEO slugs to slug-2, slug-3, ..., within the market's slug rules and clear of the compared catalog">
+          Suffix Slugs (-2)
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ProcessedGameData, OutputColumnKey } from '../types';
+import { BOOLEAN_OUTPUT_FIELDS, OPTION_OUTPUT_FIELDS } from '../constants';
+
+type CellValue = ProcessedGameData[keyof ProcessedGameData];
+
+interface EditableCellProps {
+  field: OutputColumnKey;
+  value: CellValue;
+  derivedValue: CellValue;
+  isEdited: boolean;
+  onEdit: (value: CellValue) => void;
+  onReset: () => void;
+  children: React.ReactNode; // Read-only rendering of the value
+}
+
+const editorClassName = "w-full min-w-[8rem] px-2 py-1 bg-slate-800 border border-sky-500 rounded text-sm text-slate-100 focus:outline-none";
+
+const formatValue = (value: CellValue): string => (value === undefined || value === null ? '' : String(value));
+
+/**
+ * Preview cell that switches to an editor on click. Boolean fields toggle with a
+ * checkbox, enum fields use a dropdown and everything else a text input. Enter or
+ * blur commits, Escape cancels.
+ */
+export const EditableCell: React.FC<EditableCellProps> = ({ field, value, derivedValue, isEdited, onEdit, onReset, children }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const inputRef = useRef<HTMLInputElement & HTMLSelectElement>(null);
+  const isCancelledRef = useRef(false); // Escape unmounts the editor, which still fires blur
+
+  useEffect(() => {
+    if (isEditing) {
+      inputRef.current?.focus();
+    }
+  }, [isEditing]);
+
+  const resetButton = isEdited && (
+    <button
+      type="button"
+      onClick={(e) => { e.stopPropagation(); onReset(); }}
+      className="ml-2 text-xs text-sky-300 hover:text-sky-100"
+      title={`Reset to derived value: ${formatValue(derivedValue) || '(empty)'}`}
+    >
+      ↺
+    </button>
+  );
+
+  if (BOOLEAN_OUTPUT_FIELDS.includes(field)) {
+    return (
+      <span className="inline-flex items-center">
+        <input
+          type="checkbox"
+          checked={Boolean(value)}
+          onChange={(e) => onEdit(e.target.checked)}
+          className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-sky-500 focus:ring-sky-500"
+          aria-label={field}
+        />
+        {resetButton}
+      </span>
+    );
+  }
+
+  if (!isEditing) {
+    return (
+      <span
+        className="inline-flex items-center cursor-text min-h-[1.25rem] min-w-[2rem]"
+        onClick={() => { setDraft(formatValue(value)); isCancelledRef.current = false; setIsEditing(true); }}
+        title="Click to edit"
+      >
+        {children}
+        {resetButton}
+      </span>
+    );
+  }
+
+  const commit = (nextValue: string) => {
+    setIsEditing(false);
+    if (!isCancelledRef.current && nextValue !== formatValue(value)) {
+      onEdit(nextValue === '' && derivedValue === undefined ? undefined : nextValue);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      inputRef.current?.blur();
+    } else if (e.key === 'Escape') {
+      isCancelledRef.current = true;
+      setIsEditing(false);
+    }
+  };
+
+  const options = OPTION_OUTPUT_FIELDS[field];
+  if (options) {
+    // Keep an out-of-list value selectable so opening the dropdown never changes it.
+    const choices = options.includes(draft) || draft === '' ? options : [draft, ...options];
+    return (
+      <select
+        ref={inputRef}
+        value={draft}
+        onChange={(e) => commit(e.target.value)}
+        onBlur={() => setIsEditing(false)}
+        onKeyDown={handleKeyDown}
+        className={editorClassName}
+      >
+        {choices.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      ref={inputRef}
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => commit(draft)}
+      onKeyDown={handleKeyDown}
+      className={editorClassName}
+    />
+  );
+};
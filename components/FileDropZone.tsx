@@ -0,0 +1,97 @@
+import React, { useRef, useState } from 'react';
+import { ImportedFile, ImportedSheet } from '../types';
+import { importFile, IMPORT_FILE_ACCEPT } from '../services/fileImport';
+
+interface FileDropZoneProps {
+  onImport: (text: string) => void; // Replaces the input text with the chosen sheet
+}
+
+const secondaryButtonClassName = "px-3 py-1.5 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const inputClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-sm text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+const describeSheet = (file: ImportedFile, sheet: ImportedSheet) =>
+  file.sheets.length > 1 ? `${file.fileName}, sheet "${sheet.name}"` : file.fileName;
+
+/**
+ * Drop target and file picker for TSV, CSV, XLSX and Monday.com JSON files. The file is
+ * converted to text in the input box, so it is processed like a paste; a workbook with
+ * several sheets asks which one to use first.
+ */
+export const FileDropZone: React.FC<FileDropZoneProps> = ({ onImport }) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState<string | null>(null);
+  const [pendingFile, setPendingFile] = useState<ImportedFile | null>(null); // Workbook waiting for a sheet choice
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applySheet = (file: ImportedFile, sheet: ImportedSheet) => {
+    onImport(sheet.text);
+    setLoaded(`Loaded ${describeSheet(file, sheet)}: ${sheet.rowCount} row(s).`);
+    setPendingFile(null);
+  };
+
+  const readFile = async (file: File) => {
+    setIsReading(true);
+    setLoadError(null);
+    setLoaded(null);
+    setPendingFile(null);
+    try {
+      const imported = await importFile(file.name, await file.arrayBuffer());
+      if (imported.sheets.length === 1) {
+        applySheet(imported, imported.sheets[0]);
+      } else {
+        setPendingFile(imported);
+        setSheetIndex(Math.max(0, imported.sheets.findIndex(sheet => sheet.rowCount > 0)));
+      }
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : `Could not read ${file.name}.`);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) readFile(file);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragOver(false);
+    const file = event.dataTransfer.files[0];
+    if (file) readFile(file);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={`mb-4 p-4 border-2 border-dashed rounded-md text-sm space-y-3 transition-colors ${isDragOver ? 'border-sky-400 bg-sky-900/20' : 'border-slate-600 bg-slate-900/40'}`}
+    >
+      <div className="flex flex-wrap gap-2 items-center">
+        <span className="text-slate-300">Drop a TSV, CSV, XLSX or Monday.com JSON export here, or</span>
+        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isReading} className={secondaryButtonClassName}>
+          {isReading ? 'Reading...' : 'Choose File'}
+        </button>
+        <input ref={fileInputRef} type="file" accept={IMPORT_FILE_ACCEPT} onChange={handleFileInput} className="hidden" />
+        <span className="text-slate-400">You can also paste below.</span>
+      </div>
+      {pendingFile && (
+        <div className="flex flex-wrap gap-2 items-center">
+          <label htmlFor="import-sheet" className="text-slate-300">Sheet in {pendingFile.fileName}:</label>
+          <select id="import-sheet" value={sheetIndex} onChange={(e) => setSheetIndex(Number(e.target.value))} className={inputClassName}>
+            {pendingFile.sheets.map((sheet, index) => <option key={index} value={index}>{sheet.name} ({sheet.rowCount} rows)</option>)}
+          </select>
+          <button type="button" onClick={() => applySheet(pendingFile, pendingFile.sheets[sheetIndex])} className={secondaryButtonClassName}>Use Sheet</button>
+          <button type="button" onClick={() => setPendingFile(null)} className={secondaryButtonClassName}>Cancel</button>
+        </div>
+      )}
+      {loadError && <p className="text-red-300">{loadError}</p>}
+      {loaded && <p className="text-emerald-300">{loaded}</p>}
+    </div>
+  );
+};
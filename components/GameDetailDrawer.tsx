@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { ProcessedGameData } from '../types';
+import { LAYOUT_ORIENTATIONS, LAYOUT_SIZES, LAYOUT_IMAGE_VARIANTS } from '../constants';
+import { layoutImageField } from '../services/imagePreview';
+import { ImageThumbnail } from './ImageThumbnail';
+import { imageSourceLabels } from './DataTable';
+
+interface GameDetailDrawerProps {
+  row: ProcessedGameData;
+  resolveImageUrl: (path: string) => string;
+  onClose: () => void;
+}
+
+type LayoutVariant = typeof LAYOUT_IMAGE_VARIANTS[number];
+
+const variantLabels: Record<LayoutVariant, string> = {
+  mainImage: 'Main',
+  mobileImage: 'Mobile',
+  guestMainImage: 'Guest Main',
+  guestMobileImage: 'Guest Mobile',
+};
+
+// Row height per orientation for 9rem-wide cells; a size of CxR spans C columns and R rows.
+const orientationRowHeights: Record<typeof LAYOUT_ORIENTATIONS[number], string> = {
+  landscape: 'auto-rows-[6.75rem]',
+  portrait: 'auto-rows-[12rem]',
+  square: 'auto-rows-[9rem]',
+};
+
+// This order fills a 3x3 grid without gaps, the way the tiles sit together on the portal.
+const TILE_ORDER = ['2x2', '1x2', '2x1', '1x1'] as const satisfies readonly typeof LAYOUT_SIZES[number][];
+
+const sizeSpans: Record<typeof LAYOUT_SIZES[number], string> = {
+  '1x1': 'col-span-1 row-span-1',
+  '1x2': 'col-span-1 row-span-2',
+  '2x1': 'col-span-2 row-span-1',
+  '2x2': 'col-span-2 row-span-2',
+};
+
+/**
+ * Side panel with every image of one game. The layout images are arranged in the
+ * portal's tile grid, one grid per orientation, showing one variant at a time.
+ */
+export const GameDetailDrawer: React.FC<GameDetailDrawerProps> = ({ row, resolveImageUrl, onClose }) => {
+  const [variant, setVariant] = useState<LayoutVariant>('mainImage');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/50" onClick={onClose}>
+      <aside
+        className="h-full w-full max-w-2xl overflow-y-auto bg-slate-800 shadow-xl p-6 space-y-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="game-detail-title"
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 id="game-detail-title" className="text-2xl font-semibold text-[#66acde]">{row.name}</h2>
+            <p className="text-sm text-slate-400 font-mono">{row.gameCode} · {row.gameProvider}</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-100 text-xl" aria-label="Close">✕</button>
+        </div>
+
+        <div className="flex gap-4 items-start">
+          <ImageThumbnail src={resolveImageUrl(row.defaultGameImage)} alt={`${row.name} default image`} className="w-32 h-32" />
+          <div className="text-sm space-y-1 min-w-0">
+            <p className="text-slate-300 font-semibold">Default game image</p>
+            <p className="text-slate-400 break-all">{row.defaultGameImage || '(empty)'}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2" role="tablist" aria-label="Image variant">
+          {LAYOUT_IMAGE_VARIANTS.map(option => (
+            <button
+              key={option}
+              type="button"
+              role="tab"
+              aria-selected={option === variant}
+              onClick={() => setVariant(option)}
+              className={`px-3 py-1.5 text-sm rounded-md transition-colors ${option === variant ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+            >
+              {variantLabels[option]}
+            </button>
+          ))}
+        </div>
+
+        {LAYOUT_ORIENTATIONS.map(orientation => (
+          <section key={orientation}>
+            <h3 className="mb-2 font-semibold text-slate-200 capitalize">{orientation}</h3>
+            <div className={`grid grid-cols-3 ${orientationRowHeights[orientation]} gap-2 max-w-md`}>
+              {TILE_ORDER.map(size => {
+                const field = layoutImageField(orientation, size, variant);
+                const path = row[field];
+                const text = typeof path === 'string' ? path : '';
+                const source = row.imageSources?.[field];
+                return (
+                  <figure key={size} className={`${sizeSpans[size]} relative`} title={[text || 'Not set', source && imageSourceLabels[source]].filter(Boolean).join('\n')}>
+                    <ImageThumbnail src={resolveImageUrl(text)} alt={`${row.name} ${orientation} ${size}`} className="w-full h-full" />
+                    <figcaption className="absolute left-1 top-1 px-1.5 rounded bg-slate-900/80 text-xs text-slate-300">
+                      {size}{source && <span className="ml-1 text-violet-300">{source === 'template' ? 'generated' : 'copied'}</span>}
+                    </figcaption>
+                  </figure>
+                );
+              })}
+            </div>
+          </section>
+        ))}
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { HeaderMappings } from '../types';
+import { INPUT_HEADER_MAPPINGS } from '../constants';
+import { MissingHeadersError } from '../services/headerMatching';
+
+interface HeaderMappingDialogProps {
+  error: MissingHeadersError;
+  onApply: (mappings: HeaderMappings) => void; // Only the newly chosen fields
+  onCancel: () => void;
+}
+
+const selectClassName = "w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-sm text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+const truncate = (value: string, length = 30) => (value.length > length ? `${value.slice(0, length)}…` : value);
+
+/**
+ * Shown when a required header can't be matched even through aliases. The user picks
+ * the pasted column for each missing field; the choice is remembered for later pastes.
+ */
+export const HeaderMappingDialog: React.FC<HeaderMappingDialogProps> = ({ error, onApply, onCancel }) => {
+  const [choices, setChoices] = useState<HeaderMappings>({});
+
+  const columns = error.headers
+    .map((header, index) => ({ header, sample: error.sampleRow[index]?.trim() ?? '' }))
+    .filter(column => column.header !== '');
+  const chosenHeaders = Object.values(choices);
+  const isComplete = error.missingFields.every(field => choices[field]);
+  const hasRepeats = new Set(chosenHeaders).size !== chosenHeaders.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" role="dialog" aria-modal="true" aria-labelledby="header-mapping-title">
+      <div className="w-full max-w-lg bg-slate-800 rounded-lg shadow-xl p-6 space-y-4">
+        <h2 id="header-mapping-title" className="text-xl font-semibold text-[#66acde]">Map Columns</h2>
+        <p className="text-sm text-slate-300">
+          These required columns weren't found in the pasted header row. Choose the pasted column to use for each;
+          the choice is remembered for future pastes.
+        </p>
+        <div className="space-y-3">
+          {error.missingFields.map(field => (
+            <label key={field} className="block space-y-1 text-sm text-slate-300">
+              <span className="font-semibold">{INPUT_HEADER_MAPPINGS[field]}</span>
+              <select
+                value={choices[field] ?? ''}
+                onChange={(e) => setChoices({ ...choices, [field]: e.target.value })}
+                className={selectClassName}
+              >
+                <option value="">Choose a column…</option>
+                {columns.map(({ header, sample }, index) => (
+                  <option key={index} value={header}>
+                    {header}{sample ? ` (e.g. "${truncate(sample)}")` : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        {hasRepeats && <p className="text-sm text-amber-300">Each pasted column can only be used for one field.</p>}
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(choices)}
+            disabled={!isComplete || hasRepeats}
+            className="px-4 py-2 text-sm rounded-md bg-sky-600 hover:bg-sky-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply and Process
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { HistoryRun } from '../types';
+import { isDelimitedRun } from '../services/historyStore';
+
+interface HistoryPanelProps {
+  runs: HistoryRun[];
+  onDownload: (run: HistoryRun) => void;
+  onReopen: (run: HistoryRun) => void;
+  onCompare: (run: HistoryRun) => void; // Loads the run's file as the baseline for the current rows
+  onDelete: (run: HistoryRun) => void;
+  onClear: () => void;
+}
+
+const secondaryButtonClassName = "px-3 py-1 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Past downloads, newest first. Each run keeps its generated file and the rows behind it,
+ * so a batch can be downloaded again, reopened for editing or compared with today's rows.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ runs, onDownload, onReopen, onCompare, onDelete, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleClear = () => {
+    if (window.confirm(`Delete all ${runs.length} saved run(s)?`)) {
+      onClear();
+    }
+  };
+
+  return (
+    <section className="bg-slate-800 p-6 rounded-lg shadow-xl">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <h2 className="text-2xl font-semibold text-[#66acde]">History</h2>
+        <span className="text-sm text-slate-400">{runs.length} saved run(s) {isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3 text-sm">
+          {runs.length === 0 ? (
+            <p className="text-slate-400">Downloaded files are listed here so they can be downloaded again, reopened or compared.</p>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-700">
+                  <thead>
+                    <tr className="text-left text-slate-400">
+                      <th className="px-3 py-2 font-medium">Created</th>
+                      <th className="px-3 py-2 font-medium">Market</th>
+                      <th className="px-3 py-2 font-medium">Rows</th>
+                      <th className="px-3 py-2 font-medium">File</th>
+                      <th className="px-3 py-2"><span className="sr-only">Actions</span></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {runs.map(run => (
+                      <tr key={run.id} className="text-slate-300">
+                        <td className="px-3 py-2 whitespace-nowrap">{new Date(run.createdAt).toLocaleString()}</td>
+                        <td className="px-3 py-2">{run.marketLabel}</td>
+                        <td className="px-3 py-2">{run.rowCount}</td>
+                        <td className="px-3 py-2 font-mono text-xs break-all">{run.fileName}</td>
+                        <td className="px-3 py-2">
+                          <div className="flex gap-2 justify-end">
+                            <button type="button" onClick={() => onDownload(run)} className={secondaryButtonClassName}>Download</button>
+                            <button type="button" onClick={() => onReopen(run)} className={secondaryButtonClassName} title="Replace the current input and rows with this run">Reopen</button>
+                            <button type="button" onClick={() => onCompare(run)} disabled={!isDelimitedRun(run)} className={secondaryButtonClassName} title={isDelimitedRun(run) ? 'Compare the current rows with this file' : 'Only CSV and TSV files can be compared'}>Compare</button>
+                            <button type="button" onClick={() => onDelete(run)} className={secondaryButtonClassName} aria-label={`Delete ${run.fileName}`}>✕</button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <button type="button" onClick={handleClear} className={secondaryButtonClassName}>Clear History</button>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useRef, useState } from 'react';
+import { ImageManifest } from '../types';
+import { parseImageManifest } from '../services/imageManifest';
+
+interface ImageManifestPanelProps {
+  manifest: ImageManifest | null;
+  problemCount: number; // Image issues in the current rows
+  onManifestChange: (manifest: ImageManifest | null) => void;
+}
+
+const secondaryButtonClassName = "px-3 py-1.5 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const ImageManifestPanel: React.FC<ImageManifestPanelProps> = ({ manifest, problemCount, onManifestChange }) => {
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onManifestChange(parseImageManifest(file.name, await file.arrayBuffer()));
+      setLoadError(null);
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : "Could not read the library manifest.");
+    }
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-slate-900/60 border border-slate-600 rounded-md space-y-3 text-sm">
+      <div className="flex flex-wrap gap-2 items-center">
+        <span className="font-semibold text-slate-200">Check images against the library</span>
+        <button type="button" onClick={() => fileInputRef.current?.click()} className={secondaryButtonClassName}>
+          {manifest ? 'Replace Manifest' : 'Load Manifest'}
+        </button>
+        {manifest && (
+          <button type="button" onClick={() => onManifestChange(null)} className={secondaryButtonClassName}>Clear</button>
+        )}
+        <input ref={fileInputRef} type="file" accept=".txt,.json,.zip,text/plain,application/json,application/zip" onChange={handleFile} className="hidden" />
+        {manifest && <span className="text-slate-400">{manifest.fileName}: {manifest.paths.length} files</span>}
+      </div>
+      {loadError && <p className="text-red-300">{loadError}</p>}
+      {!manifest && (
+        <p className="text-slate-400">
+          Load a file listing (one path per line), a JSON array of paths or a zip of the asset tree to flag missing files,
+          wrong extensions and wrong folder casing.
+        </p>
+      )}
+      {manifest && (
+        <p className={problemCount > 0 ? 'text-amber-300' : 'text-emerald-300'}>
+          {problemCount > 0
+            ? `${problemCount} image path(s) don't match the library; see the validation report for suggestions.`
+            : 'Every library image path matches a file in the manifest.'}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+
+interface ImageThumbnailProps {
+  src: string;
+  alt: string;
+  className?: string; // Sizing of the image and its placeholder
+}
+
+/**
+ * Lazy-loaded preview image. Shows a placeholder instead of the browser's broken-image
+ * icon when the path is empty or fails to load.
+ */
+export const ImageThumbnail: React.FC<ImageThumbnailProps> = ({ src, alt, className = 'w-12 h-12' }) => {
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+
+  if (!src || failedSrc === src) {
+    return (
+      <span
+        className={`${className} inline-flex items-center justify-center rounded bg-slate-800 border border-dashed border-slate-500 text-[10px] text-slate-500 text-center leading-tight`}
+        title={src ? `Could not load ${src}` : 'No image'}
+      >
+        {src ? 'Not found' : 'No image'}
+      </span>
+    );
+  }
+  return (
+    <img
+      src={src}
+      alt={alt}
+      loading="lazy"
+      decoding="async"
+      onError={() => setFailedSrc(src)}
+      className={`${className} rounded object-cover bg-slate-800`}
+    />
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { MarketProfile, ColumnProfile, OutputColumnKey, SlugRules } from '../types';
+import { BOOLEAN_OUTPUT_FIELDS, DEFAULT_FLAG_VALUES, DEFAULT_SLUG_RULES, LAYOUT_IMAGE_TEMPLATE_PLACEHOLDERS, EXAMPLE_LAYOUT_IMAGE_TEMPLATE } from '../constants';
+import { createMarketProfile } from '../services/marketProfiles';
+import { findUnknownPlaceholders } from '../services/layoutImages';
+import { getColumnDisplayName } from './DataTable';
+
+interface MarketProfilesPanelProps {
+  markets: MarketProfile[];
+  columnProfiles: ColumnProfile[];
+  onChange: (markets: MarketProfile[]) => void;
+  onRenameId: (oldId: string, newId: string) => void; // Lets dependent settings follow an ID change
+}
+
+const secondaryButtonClassName = "px-3 py-1.5 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const inputClassName = "w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-sm text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+// The ID keys provider folders and saved selections, so it is committed on blur rather than per keystroke.
+const MarketIdInput: React.FC<{ id: string; isTaken: (id: string) => boolean; onCommit: (id: string) => void }> = ({ id, isTaken, onCommit }) => {
+  const [draft, setDraft] = useState(id);
+  const commit = () => {
+    const next = draft.trim();
+    if (next && next !== id && !isTaken(next)) {
+      onCommit(next);
+    } else {
+      setDraft(id);
+    }
+  };
+  return <input type="text" value={draft} onChange={(e) => setDraft(e.target.value)} onBlur={commit} className={inputClassName} />;
+};
+
+export const MarketProfilesPanel: React.FC<MarketProfilesPanelProps> = ({ markets, columnProfiles, onChange, onRenameId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const updateMarket = (id: string, changes: Partial<MarketProfile>) => {
+    onChange(markets.map(market => (market.id === id ? { ...market, ...changes } : market)));
+  };
+
+  const updateFlag = (market: MarketProfile, field: OutputColumnKey, value: string) => {
+    const defaultFlags = { ...market.defaultFlags };
+    if (value === '') {
+      delete defaultFlags[field];
+    } else {
+      defaultFlags[field] = value === 'true';
+    }
+    updateMarket(market.id, { defaultFlags });
+  };
+
+  const updateSlugRules = (market: MarketProfile, changes: Partial<SlugRules>) => {
+    updateMarket(market.id, { slugRules: { ...(market.slugRules ?? DEFAULT_SLUG_RULES), ...changes } });
+  };
+
+  return (
+    <section className="bg-slate-800 p-6 rounded-lg shadow-xl">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <h2 className="text-2xl font-semibold text-[#66acde]">Markets</h2>
+        <span className="text-sm text-slate-400">{markets.map(market => market.label).join(', ')} {isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-slate-400">
+            The market ID is also the provider image folder column in Provider Rules. The preview host serves library images for thumbnails. Flag defaults apply when the pasted column is absent or blank; slug rules shape generated slugs and the checks on supplied ones.
+          </p>
+          {markets.map(market => (
+            <div key={market.id} className="p-4 bg-slate-700/50 rounded-md space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 text-sm text-slate-300">
+                <label className="space-y-1">
+                  <span>Label</span>
+                  <input type="text" value={market.label} onChange={(e) => updateMarket(market.id, { label: e.target.value })} className={inputClassName} />
+                </label>
+                <label className="space-y-1">
+                  <span>ID</span>
+                  <MarketIdInput
+                    id={market.id}
+                    isTaken={(id) => markets.some(other => other.id === id)}
+                    onCommit={(id) => onRenameId(market.id, id)}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span>Image root</span>
+                  <input type="text" value={market.imageRoot} onChange={(e) => updateMarket(market.id, { imageRoot: e.target.value })} className={inputClassName} />
+                </label>
+                <label className="space-y-1">
+                  <span>Preview host</span>
+                  <input
+                    type="text"
+                    value={market.previewHost ?? ''}
+                    onChange={(e) => updateMarket(market.id, { previewHost: e.target.value || undefined })}
+                    placeholder="https://www.example.com"
+                    className={inputClassName}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span>Output columns</span>
+                  <select
+                    value={market.columnProfileId ?? ''}
+                    onChange={(e) => updateMarket(market.id, { columnProfileId: e.target.value || undefined })}
+                    className={inputClassName}
+                  >
+                    <option value="">Selected profile</option>
+                    {columnProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                  </select>
+                </label>
+              </div>
+              <div className="space-y-1 text-sm text-slate-300">
+                <label className="block space-y-1">
+                  <span>Layout image template</span>
+                  <input
+                    type="text"
+                    value={market.layoutImageTemplate ?? ''}
+                    onChange={(e) => updateMarket(market.id, { layoutImageTemplate: e.target.value || undefined })}
+                    placeholder={EXAMPLE_LAYOUT_IMAGE_TEMPLATE}
+                    className={`${inputClassName} font-mono`}
+                  />
+                </label>
+                {findUnknownPlaceholders(market.layoutImageTemplate ?? '').length > 0 && (
+                  <p className="text-amber-300">
+                    Unknown placeholder(s): {findUnknownPlaceholders(market.layoutImageTemplate ?? '').map(name => `{${name}}`).join(', ')}
+                  </p>
+                )}
+                <p className="text-xs text-slate-400">
+                  Fills blank layout image columns. Placeholders:{' '}
+                  {Object.entries(LAYOUT_IMAGE_TEMPLATE_PLACEHOLDERS).map(([name, description]) => (
+                    <span key={name} className="mr-2" title={description}><code className="text-sky-300">{`{${name}}`}</code></span>
+                  ))}
+                </p>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(market.copyMainImages)}
+                    onChange={(e) => updateMarket(market.id, { copyMainImages: e.target.checked || undefined })}
+                    className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-sky-500 focus:ring-sky-500"
+                  />
+                  Copy a supplied main image into blank mobile and guest slots
+                </label>
+              </div>
+              <details>
+                <summary className="cursor-pointer text-sm text-sky-300">
+                  Flag defaults ({Object.keys(market.defaultFlags).length} overridden)
+                </summary>
+                <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 text-sm">
+                  {BOOLEAN_OUTPUT_FIELDS.map(field => {
+                    const override = market.defaultFlags[field];
+                    return (
+                      <label key={field} className="flex items-center justify-between gap-2 text-slate-300">
+                        <span>{getColumnDisplayName(field)}</span>
+                        <select
+                          value={override === undefined ? '' : String(override)}
+                          onChange={(e) => updateFlag(market, field, e.target.value)}
+                          className="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-sm text-slate-100"
+                        >
+                          <option value="">Default ({String(DEFAULT_FLAG_VALUES[field])})</option>
+                          <option value="true">true</option>
+                          <option value="false">false</option>
+                        </select>
+                      </label>
+                    );
+                  })}
+                </div>
+              </details>
+              <details>
+                <summary className="cursor-pointer text-sm text-sky-300">
+                  Slug rules{market.slugRules ? '' : ' (defaults)'}
+                </summary>
+                <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 text-sm text-slate-300">
+                  <label className="space-y-1">
+                    <span>"&amp;" becomes</span>
+                    <input
+                      type="text"
+                      value={(market.slugRules ?? DEFAULT_SLUG_RULES).ampersandWord}
+                      onChange={(e) => updateSlugRules(market, { ampersandWord: e.target.value })}
+                      placeholder="Nothing"
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="space-y-1 lg:col-span-2">
+                    <span>Stop words (comma-separated)</span>
+                    <input
+                      type="text"
+                      value={(market.slugRules ?? DEFAULT_SLUG_RULES).stopWords.join(',')}
+                      onChange={(e) => updateSlugRules(market, { stopWords: e.target.value ? e.target.value.split(',') : [] })}
+                      placeholder="the, of, a"
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span>Max length (0 for none)</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={(market.slugRules ?? DEFAULT_SLUG_RULES).maxLength}
+                      onChange={(e) => updateSlugRules(market, { maxLength: Math.max(0, Number(e.target.value) || 0) })}
+                      className={inputClassName}
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 sm:col-span-2 lg:col-span-4">
+                    <input
+                      type="checkbox"
+                      checked={(market.slugRules ?? DEFAULT_SLUG_RULES).expandUmlauts}
+                      onChange={(e) => updateSlugRules(market, { expandUmlauts: e.target.checked })}
+                      className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-sky-500 focus:ring-sky-500"
+                    />
+                    Write ä, ö, ü as ae, oe, ue (German style) instead of a, o, u
+                  </label>
+                  {market.slugRules && (
+                    <button type="button" onClick={() => updateMarket(market.id, { slugRules: undefined })} className={`${secondaryButtonClassName} justify-self-start`}>
+                      Reset to Defaults
+                    </button>
+                  )}
+                </div>
+              </details>
+              <button
+                type="button"
+                onClick={() => onChange(markets.filter(other => other.id !== market.id))}
+                disabled={markets.length === 1}
+                className={secondaryButtonClassName}
+              >
+                Remove {market.label}
+              </button>
+            </div>
+          ))}
+          <button type="button" onClick={() => onChange([...markets, createMarketProfile(markets)])} className={secondaryButtonClassName}>
+            Add Market
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { HeaderMappings, MondayBoard, MondaySourceSettings } from '../types';
+import { fetchMondayBoard, fetchMondayRows, loadMondaySourceSettings, saveMondaySourceSettings } from '../services/mondayApi';
+import { formatDelimitedText } from '../services/delimitedText';
+
+interface MondaySourcePanelProps {
+  headerMappings: HeaderMappings; // Decides which board columns are fetched
+  onImport: (text: string) => void; // Replaces the input text with the fetched rows
+}
+
+const secondaryButtonClassName = "px-3 py-1.5 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const inputClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-sm text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+const toggle = <T,>(list: T[], item: T): T[] => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+/**
+ * Pulls items straight from a Monday.com board over its GraphQL API instead of copying
+ * them from the browser. The board layout is loaded first so groups and a filter can be
+ * picked; the items then replace the input text like an imported file. The API token is
+ * kept in memory only.
+ */
+export const MondaySourcePanel: React.FC<MondaySourcePanelProps> = ({ headerMappings, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<MondaySourceSettings>(loadMondaySourceSettings);
+  const [apiToken, setApiToken] = useState('');
+  const [board, setBoard] = useState<MondayBoard | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveMondaySourceSettings(settings);
+  }, [settings]);
+
+  const connection = { apiToken: apiToken.trim(), endpoint: process.env.MONDAY_API_URL || undefined };
+  const updateSettings = (changes: Partial<MondaySourceSettings>) => setSettings(current => ({ ...current, ...changes }));
+
+  const run = async (task: () => Promise<void>) => {
+    setIsFetching(true);
+    setFetchError(null);
+    setLoaded(null);
+    try {
+      await task();
+    } catch (e) {
+      setFetchError(e instanceof Error ? e.message : "Could not fetch from Monday.com.");
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const handleLoadBoard = () => run(async () => {
+    const loadedBoard = await fetchMondayBoard(connection, settings.boardId);
+    setBoard(loadedBoard);
+    // Drop choices that don't exist on this board, e.g. after switching boards
+    updateSettings({
+      groupIds: settings.groupIds.filter(id => loadedBoard.groups.some(group => group.id === id)),
+      filterColumnId: loadedBoard.columns.some(column => column.id === settings.filterColumnId) ? settings.filterColumnId : '',
+    });
+  });
+
+  const handleFetchItems = () => board && run(async () => {
+    const rows = await fetchMondayRows(connection, board, settings, headerMappings);
+    onImport(formatDelimitedText(rows));
+    setLoaded(`Loaded ${rows.length - 1} item(s) from ${board.name} with columns: ${rows[0].join(', ')}.`);
+  });
+
+  return (
+    <div className="mb-4 p-4 border border-slate-600 rounded-md bg-slate-900/40 text-sm">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left text-slate-300"
+        aria-expanded={isOpen}
+      >
+        <span>Pull items from a Monday.com board</span>
+        <span className="text-slate-400">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          <div className="flex flex-wrap gap-2 items-center">
+            <input
+              type="password"
+              value={apiToken}
+              onChange={(e) => setApiToken(e.target.value)}
+              placeholder="API token"
+              autoComplete="off"
+              className={`${inputClassName} w-56`}
+              aria-label="Monday.com API token"
+            />
+            <input
+              type="text"
+              inputMode="numeric"
+              value={settings.boardId}
+              onChange={(e) => { updateSettings({ boardId: e.target.value }); setBoard(null); }}
+              placeholder="Board ID"
+              className={`${inputClassName} w-40`}
+              aria-label="Board ID"
+            />
+            <button type="button" onClick={handleLoadBoard} disabled={isFetching || !apiToken.trim() || !settings.boardId.trim()} className={secondaryButtonClassName}>
+              {isFetching && !board ? 'Loading...' : 'Load Board'}
+            </button>
+          </div>
+          <p className="text-slate-400">The token is found under your Monday.com avatar, Developers, My access tokens. It is not saved.</p>
+
+          {board && (
+            <>
+              <div>
+                <p className="text-slate-300 mb-1">Groups on {board.name} (none ticked reads the whole board):</p>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {board.groups.map(group => (
+                    <label key={group.id} className="flex items-center gap-1.5 text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={settings.groupIds.includes(group.id)}
+                        onChange={() => updateSettings({ groupIds: toggle(settings.groupIds, group.id) })}
+                        className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-sky-500 focus:ring-sky-500"
+                      />
+                      {group.title}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 items-center">
+                <label htmlFor="monday-filter-column" className="text-slate-300">Only items where</label>
+                <select
+                  id="monday-filter-column"
+                  value={settings.filterColumnId}
+                  onChange={(e) => updateSettings({ filterColumnId: e.target.value })}
+                  className={inputClassName}
+                >
+                  <option value="">(no filter)</option>
+                  {board.columns.map(column => <option key={column.id} value={column.id}>{column.title}</option>)}
+                </select>
+                <span className="text-slate-300">is one of</span>
+                <input
+                  type="text"
+                  value={settings.filterValues.join(',')}
+                  onChange={(e) => updateSettings({ filterValues: e.target.value.split(',') })}
+                  disabled={!settings.filterColumnId}
+                  placeholder="e.g. Ready, Done"
+                  className={`${inputClassName} w-48 disabled:opacity-50`}
+                  aria-label="Filter values, comma separated"
+                />
+              </div>
+              <button type="button" onClick={handleFetchItems} disabled={isFetching || !apiToken.trim()} className={secondaryButtonClassName}>
+                {isFetching ? 'Fetching...' : 'Fetch Items'}
+              </button>
+            </>
+          )}
+          {fetchError && <p className="text-red-300">{fetchError}</p>}
+          {loaded && <p className="text-emerald-300">{loaded}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { CsvOutputOptions, OutputFormat } from '../types';
+import { OUTPUT_FORMATS } from '../constants';
+
+interface OutputOptionsFormProps {
+  options: CsvOutputOptions;
+  onChange: (options: CsvOutputOptions) => void;
+}
+
+const selectClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-sm text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+export const OutputOptionsForm: React.FC<OutputOptionsFormProps> = ({ options, onChange }) => {
+  // Line endings and the BOM only apply to delimited text.
+  const isDelimited = OUTPUT_FORMATS[options.format].delimiter !== undefined;
+
+  return (
+    <div className="flex flex-wrap gap-4 items-center text-sm text-slate-300">
+      <label className="flex items-center gap-2">
+        Format
+        <select
+          value={options.format}
+          onChange={(e) => onChange({ ...options, format: e.target.value as OutputFormat })}
+          className={selectClassName}
+        >
+          {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(format => (
+            <option key={format} value={format}>{OUTPUT_FORMATS[format].label}</option>
+          ))}
+        </select>
+      </label>
+      {isDelimited && (
+        <>
+          <label className="flex items-center gap-2">
+            Line endings
+            <select
+              value={options.lineEnding}
+              onChange={(e) => onChange({ ...options, lineEnding: e.target.value as CsvOutputOptions['lineEnding'] })}
+              className={selectClassName}
+            >
+              <option value="LF">LF (Unix/macOS)</option>
+              <option value="CRLF">CRLF (Windows)</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.includeBom}
+              onChange={(e) => onChange({ ...options, includeBom: e.target.checked })}
+              className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-sky-500 focus:ring-sky-500"
+            />
+            UTF-8 BOM (for Excel)
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState, useRef } from 'react';
+import { ProviderRule, LiveLaunchAliasRule } from '../types';
+import { DEFAULT_PROVIDER_RULES } from '../constants';
+import { createEmptyProviderRule, parseProviderRulesJson, serializeProviderRules } from '../services/providerRegistry';
+import { downloadFile, formatFileTimestamp } from '../services/fileDownload';
+
+interface ProviderRegistryEditorProps {
+  rules: ProviderRule[];
+  onChange: (rules: ProviderRule[]) => void;
+  marketIds: readonly string[];
+}
+
+const inputClassName = "w-full px-2 py-1 bg-slate-700 border border-slate-600 rounded text-sm text-slate-100 focus:ring-1 focus:ring-sky-500 focus:border-sky-500";
+const secondaryButtonClassName = "px-3 py-1.5 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors";
+
+// Aliases are edited as a comma-separated list and committed on blur, so typing a
+// trailing comma doesn't get normalized away mid-edit.
+const AliasesInput: React.FC<{ aliases: string[]; onCommit: (aliases: string[]) => void }> = ({ aliases, onCommit }) => {
+  const [text, setText] = useState(aliases.join(', '));
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => onCommit(text.split(',').map(alias => alias.trim()).filter(Boolean))}
+      className={inputClassName}
+      placeholder="Alias 1, Alias 2"
+    />
+  );
+};
+
+export const ProviderRegistryEditor: React.FC<ProviderRegistryEditorProps> = ({ rules, onChange, marketIds }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateRule = (index: number, changes: Partial<ProviderRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const updateImageFolder = (index: number, marketId: string, folder: string) => {
+    updateRule(index, { imageFolders: { ...rules[index].imageFolders, [marketId]: folder } });
+  };
+
+  const handleExport = () => {
+    downloadFile(serializeProviderRules(rules), `provider_rules_${formatFileTimestamp(new Date())}.json`, 'application/json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseProviderRulesJson(await file.text()));
+      setImportError(null);
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : "Could not import provider rules.");
+    }
+  };
+
+  const handleReset = () => {
+    if (window.confirm("Replace all provider rules with the built-in defaults?")) {
+      onChange(DEFAULT_PROVIDER_RULES);
+      setImportError(null);
+    }
+  };
+
+  return (
+    <section className="bg-slate-800 p-6 rounded-lg shadow-xl">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <h2 className="text-2xl font-semibold text-[#66acde]">Provider Rules</h2>
+        <span className="text-sm text-slate-400">{rules.length} providers {isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-slate-400">
+            Aliases are matched case-insensitively against the pasted Game Provider. A blank display name or image folder keeps the pasted provider name.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => onChange([...rules, createEmptyProviderRule()])} className={secondaryButtonClassName}>Add Provider</button>
+            <button type="button" onClick={() => fileInputRef.current?.click()} className={secondaryButtonClassName}>Import JSON</button>
+            <button type="button" onClick={handleExport} className={secondaryButtonClassName}>Export JSON</button>
+            <button type="button" onClick={handleReset} className={`${secondaryButtonClassName} ml-auto`}>Reset to Defaults</button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </div>
+          {importError && <p className="text-sm text-red-300">{importError}</p>}
+
+          <div className="overflow-x-auto bg-slate-700 rounded-md shadow">
+            <table className="min-w-full divide-y divide-slate-600 text-sm">
+              <thead className="bg-slate-800">
+                <tr>
+                  {['Name', 'Aliases', 'Display Name', ...marketIds.map(marketId => `Folder ${marketId}`), 'Desktop Type', 'Mobile Type', 'Live Alias', ''].map(heading => (
+                    <th key={heading} scope="col" className="px-2 py-2 text-left text-xs font-medium text-sky-300 uppercase tracking-wider whitespace-nowrap">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-600">
+                {rules.map((rule, index) => (
+                  <tr key={index}>
+                    <td className="px-2 py-1 min-w-[10rem]">
+                      <input type="text" value={rule.name} onChange={(e) => updateRule(index, { name: e.target.value })} className={inputClassName} />
+                    </td>
+                    <td className="px-2 py-1 min-w-[14rem]">
+                      <AliasesInput key={rule.aliases.join('\u0000')} aliases={rule.aliases} onCommit={(aliases) => updateRule(index, { aliases })} />
+                    </td>
+                    <td className="px-2 py-1 min-w-[10rem]">
+                      <input type="text" value={rule.displayName ?? ''} onChange={(e) => updateRule(index, { displayName: e.target.value || undefined })} className={inputClassName} />
+                    </td>
+                    {marketIds.map(marketId => (
+                      <td key={marketId} className="px-2 py-1 min-w-[9rem]">
+                        <input type="text" value={rule.imageFolders[marketId] ?? ''} onChange={(e) => updateImageFolder(index, marketId, e.target.value)} className={inputClassName} />
+                      </td>
+                    ))}
+                    <td className="px-2 py-1 min-w-[6rem]">
+                      <input type="text" value={rule.desktopGameType} onChange={(e) => updateRule(index, { desktopGameType: e.target.value })} className={inputClassName} />
+                    </td>
+                    <td className="px-2 py-1 min-w-[6rem]">
+                      <input type="text" value={rule.mobileGameType} onChange={(e) => updateRule(index, { mobileGameType: e.target.value })} className={inputClassName} />
+                    </td>
+                    <td className="px-2 py-1">
+                      <select
+                        value={rule.liveLaunchAliasRule}
+                        onChange={(e) => updateRule(index, { liveLaunchAliasRule: e.target.value as LiveLaunchAliasRule })}
+                        className={inputClassName}
+                      >
+                        <option value="fromColumn">From column</option>
+                        <option value="fromGameCode">Game code</option>
+                      </select>
+                    </td>
+                    <td className="px-2 py-1">
+                      <button
+                        type="button"
+                        onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                        className="text-slate-400 hover:text-red-300"
+                        title={`Remove ${rule.name || 'provider'}`}
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { OutputColumnKey, TableColumnLayout, TableViewState } from '../types';
+import { DEFAULT_TABLE_COLUMN_LAYOUT, EMPTY_TABLE_VIEW } from '../services/tableView';
+import { getColumnDisplayName } from './DataTable';
+
+interface TableControlsProps {
+  view: TableViewState;
+  onViewChange: (view: TableViewState) => void;
+  columns: OutputColumnKey[]; // Every column of the profile, shown or not
+  layout: TableColumnLayout;
+  onLayoutChange: (layout: TableColumnLayout) => void;
+  visibleCount: number;
+  totalCount: number;
+}
+
+const secondaryButtonClassName = "px-3 py-1.5 text-sm rounded-md bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const inputClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-sm text-slate-100 focus:ring-2 focus:ring-sky-500 focus:border-sky-500";
+
+const toggle = <T,>(list: T[], item: T): T[] => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+/**
+ * Search box, row counter and column menu above the preview table. The column menu
+ * shows or hides each column and pins it to the left edge.
+ */
+export const TableControls: React.FC<TableControlsProps> = ({ view, onViewChange, columns, layout, onLayoutChange, visibleCount, totalCount }) => {
+  const [isColumnMenuOpen, setIsColumnMenuOpen] = useState(false);
+  const hiddenCount = columns.filter(column => layout.hidden.includes(column)).length;
+  const filterCount = Object.values(view.filters).filter(Boolean).length;
+  const isFiltered = view.search.trim() !== '' || filterCount > 0;
+
+  return (
+    <div className="mb-3 space-y-2 text-sm">
+      <div className="flex flex-wrap gap-2 items-center">
+        <input
+          type="search"
+          value={view.search}
+          onChange={(e) => onViewChange({ ...view, search: e.target.value })}
+          placeholder="Search all visible columns"
+          className={`${inputClassName} w-64`}
+          aria-label="Search rows"
+        />
+        <button type="button" onClick={() => onViewChange(EMPTY_TABLE_VIEW)} disabled={!isFiltered && !view.sort} className={secondaryButtonClassName}>
+          Clear Search, Filters &amp; Sort
+        </button>
+        <button type="button" onClick={() => setIsColumnMenuOpen(!isColumnMenuOpen)} className={secondaryButtonClassName} aria-expanded={isColumnMenuOpen}>
+          Columns{hiddenCount > 0 ? ` (${hiddenCount} hidden)` : ''} {isColumnMenuOpen ? '▲' : '▼'}
+        </button>
+        <span className={`ml-auto ${isFiltered ? 'text-sky-300' : 'text-slate-400'}`}>
+          {isFiltered ? `Showing ${visibleCount} of ${totalCount} rows` : `${totalCount} rows`}
+          {filterCount > 0 && ` · ${filterCount} column filter(s)`}
+        </span>
+      </div>
+
+      {isColumnMenuOpen && (
+        <div className="p-3 bg-slate-900/60 border border-slate-600 rounded-md space-y-2">
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => onLayoutChange({ ...layout, hidden: [] })} disabled={hiddenCount === 0} className={secondaryButtonClassName}>Show All</button>
+            <button type="button" onClick={() => onLayoutChange(DEFAULT_TABLE_COLUMN_LAYOUT)} className={secondaryButtonClassName}>Reset Columns</button>
+          </div>
+          <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-4 gap-y-1 max-h-72 overflow-y-auto">
+            {columns.map(column => {
+              const isHidden = layout.hidden.includes(column);
+              const isPinned = layout.pinned.includes(column);
+              return (
+                <li key={column} className="flex items-center gap-2">
+                  <label className="flex items-center gap-2 min-w-0 flex-1 text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={!isHidden}
+                      onChange={() => onLayoutChange({ ...layout, hidden: toggle(layout.hidden, column) })}
+                      className="h-4 w-4 rounded border-slate-500 bg-slate-700 text-sky-500 focus:ring-sky-500"
+                    />
+                    <span className="truncate" title={column}>{getColumnDisplayName(column)}</span>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => onLayoutChange({ ...layout, pinned: toggle(layout.pinned, column) })}
+                    disabled={isHidden}
+                    className={`px-2 py-0.5 text-xs rounded ${isPinned ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'} disabled:opacity-40`}
+                    aria-pressed={isPinned}
+                    title={isPinned ? 'Unpin column' : 'Pin to the left edge'}
+                  >
+                    {isPinned ? 'Pinned' : 'Pin'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { ValidationIssue } from '../types';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  marketLabel?: string; // The market whose rows the issues are about, when several were processed
+  onSelectIssue: (issue: ValidationIssue) => void;
+  // Registers an unknown provider, as an alias of mapTo or as a new provider
+  onAddProviderMapping?: (providerName: string, mapTo?: string) => void;
+  onApplySuggestion?: (issue: ValidationIssue) => void; // Writes issue.suggestedValue as a cell edit
+}
+
+type IssueListProps = Omit<ValidationPanelProps, 'issues' | 'marketLabel'> & { title: string; issues: ValidationIssue[] };
+
+const actionButtonClassName = "shrink-0 px-2 py-1 text-xs rounded bg-slate-600 hover:bg-slate-500 text-slate-100 transition-colors";
+
+const severityStyles: Record<ValidationIssue['severity'], string> = {
+  error: 'border-red-500 text-red-200',
+  warning: 'border-amber-400 text-amber-200',
+};
+
+const IssueList: React.FC<IssueListProps> = ({ title, issues, onSelectIssue, onAddProviderMapping, onApplySuggestion }) => {
+  if (issues.length === 0) return null;
+  return (
+    <div>
+      <h3 className="font-semibold text-slate-200 mb-2">{title} ({issues.length})</h3>
+      <ul className="space-y-1 max-h-48 overflow-y-auto pr-1">
+        {issues.map((issue, index) => {
+          const canJump = issue.rowIndex !== undefined;
+          const provider = onAddProviderMapping && issue.unknownProvider;
+          const canApply = onApplySuggestion && canJump && issue.field && issue.suggestedValue;
+          return (
+            <li key={index} className="flex gap-2 items-center">
+              <button
+                type="button"
+                onClick={() => onSelectIssue(issue)}
+                disabled={!canJump}
+                className={`w-full text-left text-sm px-3 py-1.5 border-l-4 bg-slate-700 rounded-r ${severityStyles[issue.severity]} ${canJump ? 'hover:bg-slate-600 cursor-pointer' : 'cursor-default'}`}
+                title={canJump ? 'Show row in preview' : undefined}
+              >
+                <span className="font-mono text-slate-400 mr-2">Line {issue.line}</span>
+                {issue.column && <span className="text-slate-300 mr-2">[{issue.column}]</span>}
+                {issue.message}
+              </button>
+              {canApply && (
+                <button type="button" onClick={() => onApplySuggestion(issue)} className={actionButtonClassName} title={`Set ${issue.field} to "${issue.suggestedValue}"`}>
+                  Use Suggestion
+                </button>
+              )}
+              {provider && provider.suggestion && (
+                <button type="button" onClick={() => onAddProviderMapping(provider.name, provider.suggestion)} className={actionButtonClassName} title={`Add "${provider.name}" as an alias of ${provider.suggestion}`}>
+                  Map to {provider.suggestion}
+                </button>
+              )}
+              {provider && (
+                <button type="button" onClick={() => onAddProviderMapping(provider.name)} className={actionButtonClassName} title={`Add "${provider.name}" to the provider registry with its name as the image folder`}>
+                  Add Provider
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, marketLabel, onSelectIssue, onAddProviderMapping, onApplySuggestion }) => {
+  if (issues.length === 0) return null;
+
+  const skipped = issues.filter(issue => issue.skipped);
+  const errors = issues.filter(issue => !issue.skipped && issue.severity === 'error');
+  const warnings = issues.filter(issue => !issue.skipped && issue.severity === 'warning');
+
+  return (
+    <section className="bg-slate-800 p-6 rounded-lg shadow-xl space-y-4">
+      <h2 className="text-2xl font-semibold text-[#66acde]">Validation Report{marketLabel && `: ${marketLabel}`}</h2>
+      <p className="text-sm text-slate-400">
+        {skipped.length} skipped, {errors.length} errors, {warnings.length} warnings.
+        {errors.length > 0 && ' Rows with errors must be fixed before downloading.'}
+      </p>
+      <IssueList title="Skipped Rows" issues={skipped} onSelectIssue={onSelectIssue} />
+      <IssueList title="Errors" issues={errors} onSelectIssue={onSelectIssue} />
+      <IssueList title="Warnings" issues={warnings} onSelectIssue={onSelectIssue} onAddProviderMapping={onAddProviderMapping} onApplySuggestion={onApplySuggestion} />
+    </section>
+  );
+};
@@ -1,83 +1,245 @@
-import { GameProviderFolderMapping, ProcessedGameData } from './types';
+import { ProcessedGameData, ProviderRule, OutputFormat, OutputFormatDefinition, CsvOutputOptions, UniqueField, IssueSeverity, OutputColumnKey, ColumnProfile, FlagDefaults, MarketProfile, SlugRules } from './types';
 
 export const APP_TITLE = "Portal Game CSV Generator";
 
-export const GAME_PROVIDER_TO_FOLDER_MAP_CA: GameProviderFolderMapping = {
-  "AGS": "AGS",
-  "Greentube": "Green Tube",
-  "Pragmatic": "Pragmatic",
-  "Games Global": "games-global",
-  "Hacksaw": "Hacksaw",
-  "HACKSAW OpenRGS": "Hacksaw",
-  "HACKSAW": "Hacksaw", // Added for all-caps input
-  "ELK-Studios": "ELK-Studios",
-  "ELK Studios via LNW": "ELK-Studios",
-  "ELK Studios": "ELK-Studios",
-  "Gaming Realms": "Gaming Realms",
-  "High 5": "High 5",
-  "High5 via SG": "High 5",
-  "Lightning Box": "Lightning Box",
-  "Peter & Sons": "Peter & Sons",
-  "Quickspin": "Quickspin",
-  "SG": "SG",
-  "Wazdan": "Wazdan",
-  "Blueprint": "Blueprint",
-  "eyecon": "eyecon",
-  "Eyecon": "eyecon", // Added for case-insensitivity
-  "IGT": "IGT",
-  "Konami": "Konami",
-  "Konami via SG": "Konami",
-  "Inspired": "Inspired",
-  "Live Casino": "Live Casino",
-  "Oryx": "Oryx",
-  "Playtech": "Playtech",
-  "Relax Gaming": "Relax Gaming",
-  "SkyWind": "SkyWind",
-  "Skywind": "SkyWind", // Ensure consistent folder casing
-  "Drops & Wins": "Drops & Wins",
-  "RubyPlay": "Rubyplay", // Custom folder name for CA export
-  "Test": "Test" // Added based on COM screenshot
-};
+export const DEFAULT_DESKTOP_GAME_TYPE = "POP";
+export const DEFAULT_MOBILE_GAME_TYPE = "POP";
 
-export const GAME_PROVIDER_TO_FOLDER_MAP_COM: GameProviderFolderMapping = {
-  // From screenshot - these take precedence
-  "Blueprint": "Blueprint",
-  "Drops & Wins": "Drops & Wins",
-  "Games Global": "Games Global", // Screenshot: "Games Global" (CA: "games-global")
-  "Live Casino": "Live Casino",
-  "Oryx": "Oryx",
-  "Peter & Sons": "Peter & Sons",
-  "Playtech": "Playtech",
-  "Pragmatic": "Pragmatic",
-  "Quickspin": "Quickspin",
-  "RubyPlay": "RubyPlay",
-  "Test": "Test",
-
-  // Providers from CA map NOT in screenshot - maintain consistency or use direct name
-  "AGS": "AGS",
-  "Greentube": "Greentube", // CA was "Green Tube", using direct name for COM
-  "Hacksaw": "Hacksaw",
-  "HACKSAW OpenRGS": "Hacksaw",
-  "HACKSAW": "Hacksaw", // Added for all-caps input
-  "ELK-Studios": "ELK-Studios",
-  "ELK Studios via LNW": "ELK-Studios",
-  "ELK Studios": "ELK-Studios",
-  "Gaming Realms": "Gaming Realms",
-  "High 5": "High 5",
-  "High5 via SG": "High 5",
-  "Lightning Box": "Lightning Box",
-  "SG": "SG",
-  "Wazdan": "Wazdan",
-  "eyecon": "eyecon",
-  "Eyecon": "eyecon", // Added for case-insensitivity
-  "IGT": "IGT",
-  "Konami": "Konami",
-  "Konami via SG": "Konami",
-  "Inspired": "Inspired",
-  "Relax Gaming": "Relax Gaming",
-  "SkyWind": "SkyWind",
-  "Skywind": "SkyWind", // Ensure consistent folder casing
-};
+// Default seed for the provider registry. Users can edit, extend, import and export
+// these rules in the UI; the edited copy is persisted in local storage.
+export const DEFAULT_PROVIDER_RULES: ProviderRule[] = [
+  {
+    name: "AGS",
+    aliases: ["AGS"],
+    imageFolders: { CA: "AGS", COM: "AGS" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Blueprint",
+    aliases: ["Blueprint"],
+    imageFolders: { CA: "Blueprint", COM: "Blueprint" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Drops & Wins",
+    aliases: ["Drops & Wins"],
+    imageFolders: { CA: "Drops & Wins", COM: "Drops & Wins" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "ELK Studios",
+    aliases: ["ELK Studios"],
+    imageFolders: { CA: "ELK-Studios", COM: "ELK-Studios" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "ELK Studios via LNW",
+    aliases: ["ELK Studios via LNW"],
+    displayName: "ELK Studios",
+    imageFolders: { CA: "ELK-Studios", COM: "ELK-Studios" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Eyecon",
+    aliases: ["Eyecon"],
+    imageFolders: { CA: "eyecon", COM: "eyecon" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Games Global",
+    aliases: ["Games Global"],
+    imageFolders: { CA: "games-global", COM: "Games Global" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Gaming Realms",
+    aliases: ["Gaming Realms"],
+    imageFolders: { CA: "Gaming Realms", COM: "Gaming Realms" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Greentube",
+    aliases: ["Greentube"],
+    imageFolders: { CA: "Green Tube", COM: "Greentube" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Hacksaw",
+    aliases: ["Hacksaw", "HACKSAW OpenRGS"],
+    displayName: "Hacksaw",
+    imageFolders: { CA: "Hacksaw", COM: "Hacksaw" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "High 5",
+    aliases: ["High 5", "High5 via SG"],
+    displayName: "High 5",
+    imageFolders: { CA: "High 5", COM: "High 5" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "IGT",
+    aliases: ["IGT"],
+    imageFolders: { CA: "IGT", COM: "IGT" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Inspired",
+    aliases: ["Inspired"],
+    imageFolders: { CA: "Inspired", COM: "Inspired" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Konami",
+    aliases: ["Konami", "Konami via SG"],
+    displayName: "Konami",
+    imageFolders: { CA: "Konami", COM: "Konami" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Lightning Box",
+    aliases: ["Lightning Box"],
+    imageFolders: { CA: "Lightning Box", COM: "Lightning Box" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Live Casino",
+    aliases: ["Live Casino"],
+    imageFolders: { CA: "Live Casino", COM: "Live Casino" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Oryx",
+    aliases: ["Oryx"],
+    imageFolders: { CA: "Oryx", COM: "Oryx" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Peter & Sons",
+    aliases: ["Peter & Sons"],
+    displayName: "Peter and Sons",
+    imageFolders: { CA: "Peter & Sons", COM: "Peter & Sons" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Playtech",
+    aliases: ["Playtech"],
+    imageFolders: { CA: "Playtech", COM: "Playtech" },
+    desktopGameType: "GPAS",
+    mobileGameType: "GPAS",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Playtech Live",
+    aliases: ["Playtech Live"],
+    imageFolders: {},
+    desktopGameType: "LIVE",
+    mobileGameType: "LIVE",
+    liveLaunchAliasRule: "fromGameCode",
+  },
+  {
+    name: "Pragmatic",
+    aliases: ["Pragmatic"],
+    displayName: "Pragmatic Play",
+    imageFolders: { CA: "Pragmatic", COM: "Pragmatic" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Quickspin",
+    aliases: ["Quickspin"],
+    imageFolders: { CA: "Quickspin", COM: "Quickspin" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Relax Gaming",
+    aliases: ["Relax Gaming"],
+    imageFolders: { CA: "Relax Gaming", COM: "Relax Gaming" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "RubyPlay",
+    aliases: ["RubyPlay"],
+    imageFolders: { CA: "Rubyplay", COM: "RubyPlay" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "SG",
+    aliases: ["SG"],
+    displayName: "Light and Wonder",
+    imageFolders: { CA: "SG", COM: "SG" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "SkyWind",
+    aliases: ["SkyWind"],
+    imageFolders: { CA: "SkyWind", COM: "SkyWind" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Test",
+    aliases: ["Test"],
+    imageFolders: { CA: "Test", COM: "Test" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+  {
+    name: "Wazdan",
+    aliases: ["Wazdan"],
+    imageFolders: { CA: "Wazdan", COM: "Wazdan" },
+    desktopGameType: "POP",
+    mobileGameType: "POP",
+    liveLaunchAliasRule: "fromColumn",
+  },
+];
 
 
 export const INPUT_HEADER_MAPPINGS = {
@@ -185,9 +347,30 @@ export const CORE_REQUIRED_INPUT_HEADER_KEYS: (keyof typeof INPUT_HEADER_MAPPING
   'GAME_PROVIDER',
 ];
 
+// Other header names accepted for an input field besides its INPUT_HEADER_MAPPINGS
+// name. Matching ignores case and whitespace, so only genuinely different names go here.
+export const INPUT_HEADER_ALIASES: Partial<Record<keyof typeof INPUT_HEADER_MAPPINGS, string[]>> = {
+  GAME_CODE: ["Game Code", "Code"],
+  NAME: ["Game Name", "Title"],
+  GAME_PROVIDER: ["Provider", "Studio", "Game Studio"],
+  IS_ACTIVE: ["Active"],
+  MOBILE_GAME_CODE: ["Mobile Code"],
+  SEO_FRIENDLY_GAME_NAME: ["Slug", "SEO Name"],
+  DEMO_MODE_SUPPORT: ["demoModeSupport", "Demo Mode"],
+  IS_EXCLUDED_FROM_PGG: ["isExcludedFromPGG"],
+  DEFAULT_USER_IMAGE: ["Image", "Default Image", "defaultGameImage"],
+  RTP_GAME_TYPE: ["vfGameType"],
+  IS_GAME_NEW: ["isGameNew", "New"],
+};
+
+// Accepted values for the enum-like input columns. Matching is case-insensitive;
+// the first entry is the default used when the column is absent, blank or invalid.
+export const DEMO_MODE_SUPPORT_OPTIONS = ['unavailable', 'available'] as const;
+export const GAME_MODE_OPTIONS = ['default', 'real', 'demo'] as const;
+
 export const PLACEHOLDER_INFO_REQUIRED_COLUMNS = "Core required headers: IMS Game Code, Name, Game Provider.";
 
-export const OUTPUT_CSV_COLUMNS: (keyof ProcessedGameData | 'gameLabelsData_Drops and Wins')[] = [
+export const OUTPUT_CSV_COLUMNS: OutputColumnKey[] = [
   'gameCode',
   'name',
   'isActive',
@@ -284,4 +467,114 @@ export const OUTPUT_CSV_COLUMNS: (keyof ProcessedGameData | 'gameLabelsData_Drop
   'gameLabelsData_New',
   'gamesCustomFields_provider',
   'gamesCustomFields_externalProviderGameId',
-];
\ No newline at end of file
+];
+
+// Output fields holding a library image path: defaultGameImage and the layout images.
+export const IMAGE_OUTPUT_FIELDS = OUTPUT_CSV_COLUMNS.filter(column => column.endsWith('Image'));
+
+// Building blocks of the layout image fields, `${orientation}_layout${size}_${variant}`.
+// Sizes are columns x rows of the portal's tile grid.
+export const LAYOUT_ORIENTATIONS = ['landscape', 'portrait', 'square'] as const;
+export const LAYOUT_SIZES = ['1x1', '1x2', '2x1', '2x2'] as const;
+export const LAYOUT_IMAGE_VARIANTS = ['mainImage', 'mobileImage', 'guestMainImage', 'guestMobileImage'] as const;
+
+// Placeholders available in MarketProfile.layoutImageTemplate. Values are URL-encoded
+// when substituted; the rest of the template is used as typed.
+export const LAYOUT_IMAGE_TEMPLATE_PLACEHOLDERS = {
+  providerFolder: "Provider image folder for the market",
+  provider: "Provider display name",
+  gameCode: "Game code",
+  slug: "SEO friendly name",
+  orientation: "landscape, portrait or square",
+  layout: "1x1, 1x2, 2x1 or 2x2",
+  variant: "main, mobile, guestMain or guestMobile",
+} as const;
+
+export const EXAMPLE_LAYOUT_IMAGE_TEMPLATE = "/library/Game%20Tiles/{providerFolder}/{gameCode}_{orientation}_{layout}{variant}.webp";
+
+export const FULL_IMPORT_COLUMN_PROFILE: ColumnProfile = {
+  id: 'full-import',
+  name: "Full import",
+  columns: OUTPUT_CSV_COLUMNS,
+  builtIn: true,
+};
+
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatDefinition> = {
+  csv: { label: "CSV (comma)", delimiter: ",", extension: "csv", mimeType: "text/csv" },
+  tsv: { label: "TSV (tab)", delimiter: "\t", extension: "tsv", mimeType: "text/tab-separated-values" },
+  semicolon: { label: "CSV (semicolon)", delimiter: ";", extension: "csv", mimeType: "text/csv" },
+  xlsx: { label: "Excel workbook", extension: "xlsx", mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+  json: { label: "JSON (array)", extension: "json", mimeType: "application/json" },
+  ndjson: { label: "NDJSON (one game per line)", extension: "ndjson", mimeType: "application/x-ndjson" },
+};
+
+export const DEFAULT_CSV_OUTPUT_OPTIONS: CsvOutputOptions = {
+  format: 'csv',
+  includeBom: false,
+  lineEnding: 'LF',
+};
+
+// Fields that must be unique across a batch, and how severe a duplicate is.
+export const UNIQUE_FIELD_SEVERITIES: Record<UniqueField, IssueSeverity> = {
+  gameCode: 'error',
+  mobileGameCode: 'error',
+  seoFriendlyGameName: 'error',
+  articleId: 'warning',
+  defaultGameImage: 'warning',
+};
+
+// Boolean fields of ProcessedGameData with the value used when their column is absent or blank.
+// Market profiles can override these.
+export const DEFAULT_FLAG_VALUES: FlagDefaults = {
+  isActive: true,
+  isExcludedFromPGG: false,
+  isExcludedFromSitemap: false,
+  deviceAvailability_mobile: true,
+  deviceAvailability_tablet: true,
+  deviceAvailability_desktop: true,
+  browserAvailability_edge: true,
+  browserAvailability_safari: true,
+  browserAvailability_chrome: true,
+  browserAvailability_firefox: true,
+  browserAvailability_other: true,
+  osAvailability_ios: true,
+  osAvailability_macintosh: true,
+  osAvailability_android: true,
+  osAvailability_windows: true,
+  osAvailability_other: true,
+  isGameNew: true,
+  isGamePopular: false,
+  isGameHot: false,
+  isGameExclusive: false,
+};
+
+// Boolean fields of ProcessedGameData, edited as checkboxes in the preview.
+export const BOOLEAN_OUTPUT_FIELDS = Object.keys(DEFAULT_FLAG_VALUES) as OutputColumnKey[];
+
+export const GAME_TYPE_OPTIONS = ['POP', 'GPAS', 'LIVE'] as const;
+
+// Fields edited with a dropdown in the preview.
+export const OPTION_OUTPUT_FIELDS: Partial<Record<keyof ProcessedGameData, readonly string[]>> = {
+  desktopGameType: GAME_TYPE_OPTIONS,
+  mobileGameType: GAME_TYPE_OPTIONS,
+  demoModeSupport: DEMO_MODE_SUPPORT_OPTIONS,
+  gameMode: GAME_MODE_OPTIONS,
+};
+
+export const MONDAY_API_URL = "https://api.monday.com/v2";
+export const MONDAY_API_VERSION = "2024-10";
+
+export const DEFAULT_SLUG_RULES: SlugRules = {
+  ampersandWord: "and",
+  stopWords: [],
+  maxLength: 0,
+  expandUmlauts: false,
+};
+
+export const DEFAULT_IMAGE_ROOT = "/library/Game%20Icons/";
+
+export const DEFAULT_MARKET_PROFILES: MarketProfile[] = [
+  { id: "CA", label: ".CA", imageRoot: DEFAULT_IMAGE_ROOT, defaultFlags: {} },
+  { id: "COM", label: ".COM", imageRoot: DEFAULT_IMAGE_ROOT, defaultFlags: {} },
+];
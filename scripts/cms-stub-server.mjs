@@ -0,0 +1,104 @@
+// Stand-in for the portal CMS import endpoint, for development and tests.
+//   node scripts/cms-stub-server.mjs [--port 4010] [--auth "Bearer dev-token"] [--fail-first 2]
+// Accepts CSV or JSON array bodies and answers { results: [{ row, status, message }] }.
+// Rows without gameCode or name, and game codes already imported, are rejected. Imports
+// are kept in memory; X-Dry-Run: true validates without importing. --fail-first answers
+// the first requests with 503 to exercise retries.
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { pathToFileURL } from 'node:url';
+
+// Minimal RFC 4180 reader: quoted fields may hold commas, quotes and line breaks.
+function parseCsv(text) {
+  const rows = [[]];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') inQuotes = true;
+    else if (char === ',') { rows[rows.length - 1].push(field); field = ''; }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows[rows.length - 1].push(field);
+      field = '';
+      rows.push([]);
+    } else field += char;
+  }
+  rows[rows.length - 1].push(field);
+  const [header, ...records] = rows.filter(cells => cells.some(cell => cell !== ''));
+  return records.map(cells => Object.fromEntries(header.map((name, index) => [name, cells[index] ?? ''])));
+}
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Starts the stub on the given port (0 picks a free one). Resolves with its URL, the
+ * requests received, the imported game codes and close().
+ */
+export function startCmsStubServer({ port = 0, auth = 'Bearer dev-token', failFirst = 0 } = {}) {
+  const requests = [];
+  const imported = new Set();
+  const server = createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', '*');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const dryRun = req.headers['x-dry-run'] === 'true';
+      requests.push({ headers: req.headers, body, dryRun });
+      if (req.method !== 'POST') return sendJson(res, 405, { error: 'Use POST.' });
+      if (auth && req.headers.authorization !== auth) return sendJson(res, 401, { error: 'Invalid credentials.' });
+      if (requests.length <= failFirst) return sendJson(res, 503, { error: 'Import queue is busy.' });
+
+      let rows;
+      try {
+        rows = (req.headers['content-type'] ?? '').includes('json') ? JSON.parse(body) : parseCsv(body);
+      } catch (e) {
+        return sendJson(res, 400, { error: `Unreadable body: ${e.message}` });
+      }
+      if (!Array.isArray(rows)) return sendJson(res, 400, { error: 'Expected an array of games.' });
+
+      const seen = new Set();
+      const results = rows.map((game, row) => {
+        const gameCode = String(game?.gameCode ?? '').trim();
+        if (!gameCode) return { row, status: 'rejected', message: 'gameCode is required.' };
+        if (!String(game.name ?? '').trim()) return { row, status: 'rejected', message: 'name is required.' };
+        if (imported.has(gameCode) || seen.has(gameCode)) return { row, status: 'rejected', message: `${gameCode} already exists in the CMS.` };
+        seen.add(gameCode);
+        return { row, status: 'accepted' };
+      });
+      if (!dryRun) seen.forEach(gameCode => imported.add(gameCode));
+      sendJson(res, 200, { dryRun, results });
+    });
+  });
+  return new Promise(resolve => server.listen(port, '127.0.0.1', () => resolve({
+    url: `http://127.0.0.1:${server.address().port}/import`,
+    requests,
+    imported,
+    close: () => new Promise(done => server.close(() => done())),
+  })));
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '4010' },
+      auth: { type: 'string', default: 'Bearer dev-token' },
+      'fail-first': { type: 'string', default: '0' },
+    },
+  });
+  const stub = await startCmsStubServer({ port: Number(values.port), auth: values.auth, failFirst: Number(values['fail-first']) });
+  console.log(`CMS stub listening on ${stub.url} (auth header: ${values.auth ? `Authorization: ${values.auth}` : 'none'})`);
+}
@@ -0,0 +1,130 @@
+import { ProcessedGameData, CellEdits, EditHistory, MarketCellEdits } from '../types';
+
+const MAX_HISTORY = 100;
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { past: [], present: {}, future: [] };
+
+export function applyCellEdits(rows: ProcessedGameData[], edits: CellEdits): ProcessedGameData[] {
+  return rows.map((row, rowIndex) => (edits[rowIndex] ? { ...row, ...edits[rowIndex] } : row));
+}
+
+export function isCellEdited(edits: CellEdits, rowIndex: number, field: keyof ProcessedGameData): boolean {
+  return edits[rowIndex] !== undefined && field in edits[rowIndex];
+}
+
+export function countCellEdits(edits: CellEdits): number {
+  return Object.values(edits).reduce((total, rowEdits) => total + Object.keys(rowEdits).length, 0);
+}
+
+// Clears the edit for a cell, dropping the row entry once it has no edits left.
+export function resetCellEdit(edits: CellEdits, rowIndex: number, field: keyof ProcessedGameData): CellEdits {
+  if (!isCellEdited(edits, rowIndex, field)) return edits;
+  const { [field]: _removed, ...rowEdits } = edits[rowIndex];
+  const next = { ...edits };
+  if (Object.keys(rowEdits).length === 0) {
+    delete next[rowIndex];
+  } else {
+    next[rowIndex] = rowEdits;
+  }
+  return next;
+}
+
+// Setting a cell back to its derived value removes the edit instead of storing a no-op.
+export function setCellEdit<K extends keyof ProcessedGameData>(
+  edits: CellEdits,
+  derivedRow: ProcessedGameData,
+  rowIndex: number,
+  field: K,
+  value: ProcessedGameData[K]
+): CellEdits {
+  const derivedValue = derivedRow[field] ?? '';
+  if ((value ?? '') === derivedValue) {
+    return resetCellEdit(edits, rowIndex, field);
+  }
+  return { ...edits, [rowIndex]: { ...edits[rowIndex], [field]: value } };
+}
+
+// Re-keys edits after rows were removed; keptIndexes[newIndex] is the row's old index.
+export function remapCellEdits(edits: CellEdits, keptIndexes: number[]): CellEdits {
+  const remapped: CellEdits = {};
+  keptIndexes.forEach((oldIndex, newIndex) => {
+    if (edits[oldIndex]) {
+      remapped[newIndex] = edits[oldIndex];
+    }
+  });
+  return remapped;
+}
+
+// Applies update to the cell in every market whose derived value equals the active
+// market's. Fields that don't depend on the market (name, codes, ...) stay in step across
+// markets, while a value a market derives differently is only changed in the active one.
+function updateSharedCell(
+  edits: MarketCellEdits,
+  marketRows: Record<string, ProcessedGameData[]>,
+  activeMarketId: string,
+  rowIndex: number,
+  field: keyof ProcessedGameData,
+  update: (marketEdits: CellEdits, derivedRow: ProcessedGameData) => CellEdits
+): MarketCellEdits {
+  const activeRow = marketRows[activeMarketId]?.[rowIndex];
+  if (!activeRow) return edits;
+  let next = edits;
+  for (const [marketId, rows] of Object.entries(marketRows)) {
+    const derivedRow = rows[rowIndex];
+    if (!derivedRow || (derivedRow[field] ?? '') !== (activeRow[field] ?? '')) continue;
+    const marketEdits = edits[marketId] ?? {};
+    const updated = update(marketEdits, derivedRow);
+    if (updated !== marketEdits) {
+      next = { ...next, [marketId]: updated };
+    }
+  }
+  return next;
+}
+
+export function setMarketCellEdit<K extends keyof ProcessedGameData>(
+  edits: MarketCellEdits,
+  marketRows: Record<string, ProcessedGameData[]>,
+  activeMarketId: string,
+  rowIndex: number,
+  field: K,
+  value: ProcessedGameData[K]
+): MarketCellEdits {
+  return updateSharedCell(edits, marketRows, activeMarketId, rowIndex, field, (marketEdits, derivedRow) => setCellEdit(marketEdits, derivedRow, rowIndex, field, value));
+}
+
+export function resetMarketCellEdit(
+  edits: MarketCellEdits,
+  marketRows: Record<string, ProcessedGameData[]>,
+  activeMarketId: string,
+  rowIndex: number,
+  field: keyof ProcessedGameData
+): MarketCellEdits {
+  return updateSharedCell(edits, marketRows, activeMarketId, rowIndex, field, marketEdits => resetCellEdit(marketEdits, rowIndex, field));
+}
+
+export function pushEdits(history: EditHistory, edits: CellEdits): EditHistory {
+  if (edits === history.present) return history;
+  return {
+    past: [...history.past, history.present].slice(-MAX_HISTORY),
+    present: edits,
+    future: [],
+  };
+}
+
+export function undoEdits(history: EditHistory): EditHistory {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoEdits(history: EditHistory): EditHistory {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
@@ -0,0 +1,177 @@
+import { CmsPublishSettings, CmsRowResult, OutputColumnKey, ProcessedGameData } from '../types';
+import { generateCsvContent } from './dataProcessor';
+import { generateJsonContent } from './exporters';
+
+const SETTINGS_STORAGE_KEY = 'csvCreator.cmsPublish';
+const RETRY_DELAY_MS = 1000;
+
+export const DEFAULT_CMS_PUBLISH_SETTINGS: CmsPublishSettings = {
+  endpoint: '',
+  authHeaderName: 'Authorization',
+  format: 'csv',
+  chunkSize: 100,
+  maxRetries: 2,
+};
+
+export interface CmsPublishOptions {
+  dryRun: boolean; // Sent as X-Dry-Run: true; the CMS validates without importing
+  authValue: string;
+  onProgress?: (chunksDone: number, chunkCount: number) => void;
+  wait?: (ms: number) => Promise<void>; // Pause between retries, replaced in tests
+}
+
+// Stops the whole publish: the remaining chunks would be refused the same way.
+export class CmsAuthError extends Error {
+  constructor(status: number) {
+    super(`The CMS refused the credentials (HTTP ${status}). Check the auth header.`);
+    this.name = 'CmsAuthError';
+  }
+}
+
+interface ServerRowResult {
+  row?: unknown;
+  status?: unknown;
+  message?: unknown;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+function chunkBody(rows: ProcessedGameData[], columns: OutputColumnKey[], settings: CmsPublishSettings): { body: string; contentType: string } {
+  return settings.format === 'json'
+    ? { body: generateJsonContent(rows, columns), contentType: 'application/json' }
+    : { body: generateCsvContent(rows, columns, { format: 'csv', includeBom: false, lineEnding: 'LF' }), contentType: 'text/csv' };
+}
+
+async function responseMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    if (typeof body?.error === 'string') return body.error;
+    if (typeof body?.message === 'string') return body.message;
+  } catch {
+    // Not JSON; use the text as it is
+  }
+  return text.trim().slice(0, 200) || `HTTP ${response.status}`;
+}
+
+// Seconds from a Retry-After header, when the server sent one.
+function retryAfterMs(response: Response | null): number | undefined {
+  const seconds = Number(response?.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+// The server's verdict for each row of a chunk, by position within the chunk. Rows it
+// doesn't mention are reported as failed rather than assumed accepted.
+function readRowResults(body: unknown, rows: ProcessedGameData[], firstIndex: number): CmsRowResult[] {
+  const serverResults: ServerRowResult[] = Array.isArray((body as { results?: unknown })?.results) ? (body as { results: ServerRowResult[] }).results : [];
+  return rows.map((row, offset) => {
+    const result = serverResults.find(candidate => candidate?.row === offset);
+    const base = { rowIndex: firstIndex + offset, gameCode: row.gameCode };
+    if (result?.status === 'accepted' || result?.status === 'rejected') {
+      return { ...base, status: result.status, ...(typeof result.message === 'string' && result.message ? { message: result.message } : {}) };
+    }
+    return { ...base, status: 'failed', message: "The CMS returned no result for this row." };
+  });
+}
+
+async function publishChunk(
+  rows: ProcessedGameData[],
+  columns: OutputColumnKey[],
+  firstIndex: number,
+  settings: CmsPublishSettings,
+  options: CmsPublishOptions
+): Promise<CmsRowResult[]> {
+  const { body, contentType } = chunkBody(rows, columns, settings);
+  const headers: Record<string, string> = { 'Content-Type': contentType };
+  if (settings.authHeaderName.trim() && options.authValue) headers[settings.authHeaderName.trim()] = options.authValue;
+  if (options.dryRun) headers['X-Dry-Run'] = 'true';
+
+  const wait = options.wait ?? sleep;
+  let failure = '';
+  for (let attempt = 0; attempt <= settings.maxRetries; attempt++) {
+    let response: Response | null = null;
+    try {
+      response = await fetch(settings.endpoint, { method: 'POST', headers, body });
+    } catch (e) {
+      failure = `Could not reach the CMS: ${e instanceof Error ? e.message : e}`;
+    }
+    if (response) {
+      if (response.status === 401 || response.status === 403) throw new CmsAuthError(response.status);
+      if (response.ok) {
+        return readRowResults(await response.json().catch(() => null), rows, firstIndex);
+      }
+      failure = `HTTP ${response.status}: ${await responseMessage(response)}`;
+      if (!isRetryable(response.status)) break;
+    }
+    if (attempt < settings.maxRetries) {
+      await wait(retryAfterMs(response) ?? RETRY_DELAY_MS * 2 ** attempt);
+    }
+  }
+  return rows.map((row, offset) => ({ rowIndex: firstIndex + offset, gameCode: row.gameCode, status: 'failed', message: failure }));
+}
+
+/**
+ * Posts rows to the CMS import endpoint in chunks of settings.chunkSize, one after the
+ * other, as CSV or a JSON array. The endpoint answers each chunk with
+ * { results: [{ row, status: 'accepted' | 'rejected', message }] }, row being the
+ * position in the chunk. Network errors, 429 and 5xx responses are retried with growing
+ * pauses; a chunk that still fails marks its rows as failed and publishing moves on.
+ * Refused credentials throw CmsAuthError.
+ */
+export async function publishToCms(
+  rows: ProcessedGameData[],
+  columns: OutputColumnKey[],
+  settings: CmsPublishSettings,
+  options: CmsPublishOptions
+): Promise<CmsRowResult[]> {
+  if (!/^https?:\/\//i.test(settings.endpoint.trim())) {
+    throw new Error("The CMS import endpoint must be an http(s) URL.");
+  }
+  const chunkSize = Math.max(1, Math.floor(settings.chunkSize) || DEFAULT_CMS_PUBLISH_SETTINGS.chunkSize);
+  const target = { ...settings, endpoint: settings.endpoint.trim(), maxRetries: Math.max(0, Math.floor(settings.maxRetries) || 0) };
+  const chunkCount = Math.ceil(rows.length / chunkSize);
+  const results: CmsRowResult[] = [];
+  for (let chunk = 0; chunk < chunkCount; chunk++) {
+    const start = chunk * chunkSize;
+    results.push(...await publishChunk(rows.slice(start, start + chunkSize), columns, start, target, options));
+    options.onProgress?.(chunk + 1, chunkCount);
+  }
+  return results;
+}
+
+/**
+ * Replaces the results of re-published rows. retried holds the results of publishing
+ * rowIndexes (indexes into the original rows), in that order.
+ */
+export function mergeCmsResults(previous: CmsRowResult[], rowIndexes: number[], retried: CmsRowResult[]): CmsRowResult[] {
+  const byRow = new Map(retried.map(result => [rowIndexes[result.rowIndex], { ...result, rowIndex: rowIndexes[result.rowIndex] }]));
+  return previous.map(result => byRow.get(result.rowIndex) ?? result);
+}
+
+/**
+ * Whether every failed result still points at the same game in rows, so its row can be
+ * sent again by index. Re-processing or removing duplicates can move games to other
+ * indexes without changing the row count.
+ */
+export function canRetryFailedRows(results: CmsRowResult[], rows: ProcessedGameData[]): boolean {
+  return results.every(result => result.status !== 'failed' || rows[result.rowIndex]?.gameCode === result.gameCode);
+}
+
+export function loadCmsPublishSettings(): CmsPublishSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (parsed && typeof parsed.endpoint === 'string') {
+      return { ...DEFAULT_CMS_PUBLISH_SETTINGS, ...parsed };
+    }
+  } catch (e) {
+    console.warn("Ignoring stored CMS publish settings:", e);
+  }
+  return DEFAULT_CMS_PUBLISH_SETTINGS;
+}
+
+export function saveCmsPublishSettings(settings: CmsPublishSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
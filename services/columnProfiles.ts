@@ -0,0 +1,59 @@
+import { ColumnProfile, OutputColumnKey } from '../types';
+import { FULL_IMPORT_COLUMN_PROFILE, OUTPUT_CSV_COLUMNS } from '../constants';
+
+const PROFILES_STORAGE_KEY = 'csvCreator.columnProfiles';
+const SELECTED_PROFILE_STORAGE_KEY = 'csvCreator.selectedColumnProfile';
+
+export const BUILT_IN_COLUMN_PROFILES: ColumnProfile[] = [FULL_IMPORT_COLUMN_PROFILE];
+
+// Drops unknown or repeated columns, e.g. from a profile saved before a column was renamed.
+function sanitizeColumns(columns: unknown[]): OutputColumnKey[] {
+  const known = new Set<string>(OUTPUT_CSV_COLUMNS);
+  return [...new Set(columns)].filter((column): column is OutputColumnKey => typeof column === 'string' && known.has(column));
+}
+
+// Returns the built-in profiles followed by the user's saved ones.
+export function loadColumnProfiles(): ColumnProfile[] {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (stored) {
+      const parsed: unknown = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        const custom = parsed
+          .filter(item => item && typeof item.id === 'string' && typeof item.name === 'string' && Array.isArray(item.columns))
+          .map(item => ({ id: item.id, name: item.name, columns: sanitizeColumns(item.columns) }));
+        return [...BUILT_IN_COLUMN_PROFILES, ...custom];
+      }
+    }
+  } catch (e) {
+    console.warn("Ignoring stored column profiles:", e);
+  }
+  return BUILT_IN_COLUMN_PROFILES;
+}
+
+// Only user profiles are stored; built-ins always come from the code.
+export function saveColumnProfiles(profiles: ColumnProfile[]): void {
+  const custom = profiles
+    .filter(profile => !profile.builtIn)
+    .map(({ id, name, columns }) => ({ id, name, columns }));
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(custom));
+}
+
+export function loadSelectedColumnProfileId(): string {
+  return localStorage.getItem(SELECTED_PROFILE_STORAGE_KEY) || FULL_IMPORT_COLUMN_PROFILE.id;
+}
+
+export function saveSelectedColumnProfileId(id: string): void {
+  localStorage.setItem(SELECTED_PROFILE_STORAGE_KEY, id);
+}
+
+export function createColumnProfile(name: string, columns: OutputColumnKey[]): ColumnProfile {
+  return { id: crypto.randomUUID(), name, columns: [...columns] };
+}
+
+export function moveColumn(columns: OutputColumnKey[], fromIndex: number, toIndex: number): OutputColumnKey[] {
+  const next = [...columns];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return next;
+}
@@ -1,25 +1,15 @@
-import { ProcessedGameData, GameProviderFolderMapping } from '../types';
-import { INPUT_HEADER_MAPPINGS, CORE_REQUIRED_INPUT_HEADER_KEYS } from '../constants';
+import { ProcessedGameData, ProviderRule, CsvOutputOptions, ParseResult, ValidationIssue, OutputColumnKey, MarketProfile, HeaderMappings } from '../types';
+import { INPUT_HEADER_MAPPINGS, DEMO_MODE_SUPPORT_OPTIONS, GAME_MODE_OPTIONS, OUTPUT_FORMATS, DEFAULT_CSV_OUTPUT_OPTIONS, DEFAULT_FLAG_VALUES, DEFAULT_SLUG_RULES } from '../constants';
+import { resolveProvider, normalizeProviderName, suggestProviderRule } from './providerRegistry';
+import { parseDelimitedText, quoteField } from './delimitedText';
+import { matchHeaders, MissingHeadersError } from './headerMatching';
+import { fillLayoutImages } from './layoutImages';
+import { generateSeoFriendlyName, slugIssue } from './slugs';
 
-function generateSeoFriendlyName(name: string): string {
-  if (!name) return '';
-  return name
-    .toLowerCase()
-    .replace(/™/g, '') // Remove trademark symbol
-    .replace(/®/g, '') // Remove registered symbol
-    .replace(/©/g, '') // Remove copyright symbol
-    .replace(/%/g, '')  // Remove percentage sign
-    .replace(/&/g, 'and') // Replace ampersand
-    .replace(/[^\w\s-]/g, '') // Remove non-alphanumeric, keeping spaces and hyphens
-    .trim() // Trim leading/trailing whitespace
-    .replace(/\s+/g, '-') // Replace spaces (single or multiple) with a single hyphen
-    .replace(/-+/g, '-') // Replace multiple hyphens with a single hyphen
-    .replace(/^-+|-+$/g, ''); // Trim leading/trailing hyphens
-}
-
-function parseBooleanString(value: string | undefined, defaultValue: boolean = false): boolean {
+// Returns undefined when the value is absent, blank or not a recognized boolean.
+function tryParseBooleanString(value: string | undefined): boolean | undefined {
     if (value === undefined || value === null) {
-        return defaultValue;
+        return undefined;
     }
     const lowerValue = value.trim().toLowerCase();
     if (lowerValue === 'true' || lowerValue === '1') {
@@ -28,81 +18,170 @@ function parseBooleanString(value: string | undefined, defaultValue: boolean = f
     if (lowerValue === 'false' || lowerValue === '0') {
         return false;
     }
-    return defaultValue;
+    return undefined;
 }
 
+export function parseBooleanString(value: string | undefined, defaultValue: boolean = false): boolean {
+    const parsed = tryParseBooleanString(value);
+    return parsed === undefined ? defaultValue : parsed;
+}
+
+// Case-insensitive match against a list of accepted values, returning the canonical spelling.
+function tryParseOption<T extends string>(value: string | undefined, options: readonly T[]): T | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const lowerValue = value.trim().toLowerCase();
+    return options.find(option => option.toLowerCase() === lowerValue);
+}
+
+const PROGRESS_INTERVAL = 250;
 
 export function parsePastedData(
   text: string,
-  providerMap: GameProviderFolderMapping // Accept providerMap as an argument
-): ProcessedGameData[] {
-  const lines = text.trim().split('\n');
-  if (lines.length < 2) {
+  providerRules: ProviderRule[],
+  market: MarketProfile, // Selects provider image folders, the image root and flag defaults
+  headerMappings: HeaderMappings = {}, // Columns the user picked for fields whose header didn't match
+  onProgress?: (rowsDone: number, rowCount: number) => void // Called every PROGRESS_INTERVAL data rows
+): ParseResult {
+  const { rows, dialect } = parseDelimitedText(text);
+  if (rows.length < 2) {
     throw new Error("Data must include a header row and at least one data row.");
   }
 
-  const headerCells = lines[0].split('\t').map(cell => cell.trim());
-  const headerIndices: { [internalKey: string]: number } = {};
-  const missingRequiredHeaders: string[] = [];
+  const headerCells = rows[0].cells.map(cell => cell.trim());
+  const { indices: headerIndices, missingRequired } = matchHeaders(headerCells, headerMappings);
 
-  for (const internalKey in INPUT_HEADER_MAPPINGS) {
-    const expectedHeader = INPUT_HEADER_MAPPINGS[internalKey as keyof typeof INPUT_HEADER_MAPPINGS];
-    const index = headerCells.indexOf(expectedHeader);
-    if (index !== -1) {
-      headerIndices[internalKey] = index;
-    } else {
-      if (CORE_REQUIRED_INPUT_HEADER_KEYS.includes(internalKey as keyof typeof INPUT_HEADER_MAPPINGS)) {
-        missingRequiredHeaders.push(expectedHeader);
-      }
-    }
-  }
-
-  if (missingRequiredHeaders.length > 0) {
-    throw new Error(`Missing required headers: ${missingRequiredHeaders.join(', ')}.`);
+  if (missingRequired.length > 0) {
+    throw new MissingHeadersError(missingRequired, headerCells, rows[1].cells);
   }
   
   const processedGames: ProcessedGameData[] = [];
+  const issues: ValidationIssue[] = [];
+  // Providers without a rule, by normalized name, reported once each after all rows are read.
+  const unknownProviders = new Map<string, { name: string; line: number; rowIndex: number; count: number }>();
+  const imageRoot = market.imageRoot.endsWith('/') ? market.imageRoot : `${market.imageRoot}/`;
+  const slugRules = market.slugRules ?? DEFAULT_SLUG_RULES;
 
-  // This map defines how to rename providers for the final output CSV.
-  // The key is the lower-cased input provider name.
-  // The value is the desired display name.
-  const providerDisplayNameMap: { [key: string]: string } = {
-    'pragmatic': 'Pragmatic Play',
-    'konami via sg': 'Konami',
-    'high5 via sg': 'High 5',
-    'sg': 'Light and Wonder',
-    'elk studios via lnw': 'ELK Studios',
-    'peter & sons': 'Peter and Sons',
-    'hacksaw': 'Hacksaw',
-    'hacksaw openrgs': 'Hacksaw',
-  };
+  for (let i = 1; i < rows.length; i++) {
+    if (onProgress && (i - 1) % PROGRESS_INTERVAL === 0) onProgress(i - 1, rows.length - 1);
+    const { cells, line } = rows[i];
+    const rowIndex = processedGames.length; // Index the row will get if it is kept
+
+    if (cells.slice(headerCells.length).some(cell => cell.trim() !== '')) {
+      issues.push({
+        line,
+        rowIndex,
+        severity: 'warning',
+        skipped: false,
+        message: `Row has ${cells.length} cells but the header has ${headerCells.length}; values may be shifted into the wrong columns.`,
+      });
+    }
 
-  for (let i = 1; i < lines.length; i++) {
-    const cells = lines[i].split('\t');
-    
     const getCellValue = (internalKey: keyof typeof INPUT_HEADER_MAPPINGS): string | undefined => {
       const index = headerIndices[internalKey];
       return index !== undefined ? cells[index]?.trim() : undefined;
     };
 
+    // Records which fields fell back to a default so the preview can flag them.
+    const defaultedFields: (keyof ProcessedGameData)[] = [];
+
+    const getBooleanValue = (
+      internalKey: keyof typeof INPUT_HEADER_MAPPINGS,
+      field: OutputColumnKey
+    ): boolean => {
+      const defaultValue = market.defaultFlags[field] ?? DEFAULT_FLAG_VALUES[field] ?? false;
+      const value = getCellValue(internalKey);
+      if (tryParseBooleanString(value) === undefined) {
+        defaultedFields.push(field);
+        if (value) {
+          issues.push({
+            line,
+            rowIndex,
+            column: INPUT_HEADER_MAPPINGS[internalKey],
+            field,
+            severity: 'warning',
+            skipped: false,
+            message: `"${value}" is not a boolean (true/false/1/0); using default "${defaultValue}".`,
+          });
+        }
+      }
+      return parseBooleanString(value, defaultValue);
+    };
+
+    const getOptionValue = <T extends string>(
+      internalKey: keyof typeof INPUT_HEADER_MAPPINGS,
+      field: keyof ProcessedGameData,
+      options: readonly T[]
+    ): T => {
+      const value = getCellValue(internalKey);
+      const parsed = tryParseOption(value, options);
+      if (parsed === undefined) {
+        defaultedFields.push(field);
+        if (value) {
+          issues.push({
+            line,
+            rowIndex,
+            column: INPUT_HEADER_MAPPINGS[internalKey],
+            field,
+            severity: 'warning',
+            skipped: false,
+            message: `"${value}" is not one of ${options.join(', ')}; using default "${options[0]}".`,
+          });
+        }
+        return options[0];
+      }
+      return parsed;
+    };
+
     const gameCode = getCellValue('GAME_CODE');
     const name = getCellValue('NAME');
     const originalGameProvider = getCellValue('GAME_PROVIDER'); 
 
     if (!gameCode || !name || !originalGameProvider) {
-      console.warn(`Skipping line ${i + 1}: Missing core data (gameCode, name, or gameProvider).`);
+      const missingColumns: string[] = [];
+      if (!gameCode) missingColumns.push(INPUT_HEADER_MAPPINGS.GAME_CODE);
+      if (!name) missingColumns.push(INPUT_HEADER_MAPPINGS.NAME);
+      if (!originalGameProvider) missingColumns.push(INPUT_HEADER_MAPPINGS.GAME_PROVIDER);
+      issues.push({
+        line,
+        column: missingColumns.join(', '),
+        severity: 'error',
+        skipped: true,
+        message: `Row skipped: missing ${missingColumns.join(', ')}.`,
+      });
       continue;
     }
 
-    const lowerCaseProvider = originalGameProvider.trim().toLowerCase();
+    if (/\s/.test(gameCode)) {
+      issues.push({
+        line,
+        rowIndex,
+        column: INPUT_HEADER_MAPPINGS.GAME_CODE,
+        field: 'gameCode',
+        severity: 'error',
+        skipped: false,
+        message: `Game code "${gameCode}" contains whitespace.`,
+      });
+    }
 
-    // Normalize the game provider name for the final output using the map.
-    // If a mapping exists, use it; otherwise, use the original provider name.
-    const finalGameProvider = providerDisplayNameMap[lowerCaseProvider] || originalGameProvider;
+    const provider = resolveProvider(providerRules, originalGameProvider, market.id);
+    if (!provider.isKnown) {
+      const key = normalizeProviderName(originalGameProvider);
+      const unknown = unknownProviders.get(key);
+      if (unknown) {
+        unknown.count++;
+      } else {
+        unknownProviders.set(key, { name: originalGameProvider, line, rowIndex, count: 1 });
+      }
+    }
 
     let seoFriendlyGameName = getCellValue('SEO_FRIENDLY_GAME_NAME');
     if (!seoFriendlyGameName) {
-      seoFriendlyGameName = generateSeoFriendlyName(name);
+      seoFriendlyGameName = generateSeoFriendlyName(name, slugRules);
+    } else {
+      const issue = slugIssue(seoFriendlyGameName, slugRules, line, rowIndex);
+      if (issue) issues.push(issue);
     }
 
     let defaultGameImage = '';
@@ -129,63 +208,52 @@ export function parsePastedData(
             }
         }
     } else {
-      const folderNameFromMap = providerMap[originalGameProvider]; // Use the passed providerMap
-      const providerFolderName = folderNameFromMap || originalGameProvider; 
-      const encodedFolderName = encodeURIComponent(providerFolderName);
-      defaultGameImage = `/library/Game%20Icons/${encodedFolderName}/${gameCode}.webp`;
+      const encodedFolderName = encodeURIComponent(provider.imageFolder);
+      defaultGameImage = `${imageRoot}${encodedFolderName}/${gameCode}.webp`;
     }
     
     const mobileGameCode = getCellValue('MOBILE_GAME_CODE') || gameCode;
 
-    let desktopGameTypeFinal = "POP";
-    let mobileGameTypeFinal = "POP";
-    let liveLaunchAliasValue = getCellValue('LIVE_LAUNCH_ALIAS'); 
-
-    if (lowerCaseProvider === "playtech") {
-      desktopGameTypeFinal = "GPAS";
-      mobileGameTypeFinal = "GPAS";
-    } else if (lowerCaseProvider === "playtech live") {
-      desktopGameTypeFinal = "LIVE";
-      mobileGameTypeFinal = "LIVE";
-      liveLaunchAliasValue = gameCode; 
-    }
+    const liveLaunchAliasValue = provider.liveLaunchAliasRule === 'fromGameCode'
+      ? gameCode
+      : getCellValue('LIVE_LAUNCH_ALIAS');
 
     const rowData: ProcessedGameData = {
       gameCode, 
       name,
-      gameProvider: finalGameProvider, 
+      gameProvider: provider.displayName,
       mobileGameCode,
       seoFriendlyGameName,
       defaultGameImage,
-      isActive: true,
-      isExcludedFromPGG: parseBooleanString(getCellValue('IS_EXCLUDED_FROM_PGG')),
-      isExcludedFromSitemap: false, 
-      deviceAvailability_mobile: true,
-      deviceAvailability_tablet: true,
-      deviceAvailability_desktop: true,
-      browserAvailability_edge: true,
-      browserAvailability_safari: true,
-      browserAvailability_chrome: true,
-      browserAvailability_firefox: true,
-      browserAvailability_other: true,
-      osAvailability_ios: true,
-      osAvailability_macintosh: true,
-      osAvailability_android: true,
-      osAvailability_windows: true,
-      osAvailability_other: true,
-      isGameNew: parseBooleanString(getCellValue('IS_GAME_NEW'), true), 
-      isGamePopular: parseBooleanString(getCellValue('IS_GAME_POPULAR')),
-      isGameHot: parseBooleanString(getCellValue('IS_GAME_HOT')),
-      isGameExclusive: parseBooleanString(getCellValue('IS_GAME_EXCLUSIVE')),
+      isActive: getBooleanValue('IS_ACTIVE', 'isActive'),
+      isExcludedFromPGG: getBooleanValue('IS_EXCLUDED_FROM_PGG', 'isExcludedFromPGG'),
+      isExcludedFromSitemap: getBooleanValue('IS_EXCLUDED_FROM_SITEMAP', 'isExcludedFromSitemap'),
+      deviceAvailability_mobile: getBooleanValue('DEVICE_AVAILABILITY_MOBILE', 'deviceAvailability_mobile'),
+      deviceAvailability_tablet: getBooleanValue('DEVICE_AVAILABILITY_TABLET', 'deviceAvailability_tablet'),
+      deviceAvailability_desktop: getBooleanValue('DEVICE_AVAILABILITY_DESKTOP', 'deviceAvailability_desktop'),
+      browserAvailability_edge: getBooleanValue('BROWSER_AVAILABILITY_EDGE', 'browserAvailability_edge'),
+      browserAvailability_safari: getBooleanValue('BROWSER_AVAILABILITY_SAFARI', 'browserAvailability_safari'),
+      browserAvailability_chrome: getBooleanValue('BROWSER_AVAILABILITY_CHROME', 'browserAvailability_chrome'),
+      browserAvailability_firefox: getBooleanValue('BROWSER_AVAILABILITY_FIREFOX', 'browserAvailability_firefox'),
+      browserAvailability_other: getBooleanValue('BROWSER_AVAILABILITY_OTHER', 'browserAvailability_other'),
+      osAvailability_ios: getBooleanValue('OS_AVAILABILITY_IOS', 'osAvailability_ios'),
+      osAvailability_macintosh: getBooleanValue('OS_AVAILABILITY_MACINTOSH', 'osAvailability_macintosh'),
+      osAvailability_android: getBooleanValue('OS_AVAILABILITY_ANDROID', 'osAvailability_android'),
+      osAvailability_windows: getBooleanValue('OS_AVAILABILITY_WINDOWS', 'osAvailability_windows'),
+      osAvailability_other: getBooleanValue('OS_AVAILABILITY_OTHER', 'osAvailability_other'),
+      isGameNew: getBooleanValue('IS_GAME_NEW', 'isGameNew'),
+      isGamePopular: getBooleanValue('IS_GAME_POPULAR', 'isGamePopular'),
+      isGameHot: getBooleanValue('IS_GAME_HOT', 'isGameHot'),
+      isGameExclusive: getBooleanValue('IS_GAME_EXCLUSIVE', 'isGameExclusive'),
 
-      desktopGameType: desktopGameTypeFinal,
-      mobileGameType: mobileGameTypeFinal,
+      desktopGameType: provider.desktopGameType,
+      mobileGameType: provider.mobileGameType,
       liveLaunchAlias: liveLaunchAliasValue, 
       bingoGameType: getCellValue('BINGO_GAME_TYPE'),
       vfGameType: getCellValue('RTP_GAME_TYPE'), 
       jackpotCode: getCellValue('JACKPOT_CODE'),
-      demoModeSupport: "unavailable", 
-      gameMode: "default", 
+      demoModeSupport: getOptionValue('DEMO_MODE_SUPPORT', 'demoModeSupport', DEMO_MODE_SUPPORT_OPTIONS),
+      gameMode: getOptionValue('GAME_MODE', 'gameMode', GAME_MODE_OPTIONS),
       urlCustomParameters: getCellValue('URL_CUSTOM_PARAMETERS'),
       
       landscape_layout1x1_mainImage: getCellValue('LANDSCAPE_LAYOUT_1X1_MAIN_IMAGE'),
@@ -248,31 +316,54 @@ export function parsePastedData(
       gameLabelsData_New: getCellValue('GAMELABELS_NEW'),
       gamesCustomFields_provider: getCellValue('GAMESCUSTOMFIELDS_PROVIDER'),
       gamesCustomFields_externalProviderGameId: getCellValue('GAMESCUSTOMFIELDS_EXTERNALPROVIDERGAMEID'),
+      defaultedFields,
+      sourceLine: line,
     };
-    processedGames.push(rowData);
+    processedGames.push(fillLayoutImages(rowData, market, provider.imageFolder));
   }
-  return processedGames;
+
+  for (const { name, line, rowIndex, count } of unknownProviders.values()) {
+    const suggestion = suggestProviderRule(providerRules, name)?.name;
+    issues.push({
+      line,
+      rowIndex,
+      column: INPUT_HEADER_MAPPINGS.GAME_PROVIDER,
+      field: 'gameProvider',
+      severity: 'warning',
+      skipped: false,
+      message: `Unknown provider "${name}" (${count} row(s)); the name is used as is for the image folder.${suggestion ? ` Did you mean "${suggestion}"?` : ''}`,
+      unknownProvider: { name, suggestion },
+    });
+  }
+  onProgress?.(rows.length - 1, rows.length - 1);
+  return { rows: processedGames, issues, dialect };
+}
+
+// Formats a field the way it is written to the output file.
+export function formatCellValue(value: ProcessedGameData[keyof ProcessedGameData]): string {
+  if (typeof value === 'boolean') {
+    return String(value).toLowerCase();
+  }
+  return (value === undefined || value === null) ? '' : String(value);
 }
 
 export function generateCsvContent(
   data: ProcessedGameData[],
-  columns: (keyof ProcessedGameData | 'gameLabelsData_Drops and Wins')[]
+  columns: OutputColumnKey[],
+  options: CsvOutputOptions = DEFAULT_CSV_OUTPUT_OPTIONS
 ): string {
   if (data.length === 0) return '';
 
-  const header = columns.join('\t') + '\n';
+  const { delimiter, label } = OUTPUT_FORMATS[options.format];
+  if (delimiter === undefined) {
+    throw new Error(`${label} is not a delimited text format.`);
+  }
+  const newline = options.lineEnding === 'CRLF' ? '\r\n' : '\n';
+
+  const header = columns.map(col => quoteField(String(col), delimiter)).join(delimiter);
   const rows = data.map(row => {
-    return columns.map(col => {
-      const value = row[col as keyof ProcessedGameData]; 
-      
-      if (typeof value === 'boolean') {
-        return String(value).toLowerCase();
-      }
-      let cellValue = (value === undefined || value === null) ? '' : String(value);
-      cellValue = cellValue.replace(/\t/g, ' ').replace(/\n/g, ' '); 
-      return cellValue;
-    }).join('\t');
-  }).join('\n');
+    return columns.map(col => quoteField(formatCellValue(row[col]), delimiter)).join(delimiter);
+  });
 
-  return header + rows;
-}
\ No newline at end of file
+  return (options.includeBom ? '\uFEFF' : '') + [header, ...rows].join(newline);
+}
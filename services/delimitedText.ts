@@ -0,0 +1,179 @@
+import { DelimitedTextDialect, DelimitedRow, InputDelimiter } from '../types';
+
+const CANDIDATE_DELIMITERS: InputDelimiter[] = ['\t', ',', ';'];
+
+const DELIMITER_LABELS: Record<InputDelimiter, string> = {
+  '\t': 'Tab-separated',
+  ',': 'Comma-separated',
+  ';': 'Semicolon-separated',
+};
+
+function stripBom(text: string): { text: string; hasBom: boolean } {
+  return text.charCodeAt(0) === 0xfeff
+    ? { text: text.slice(1), hasBom: true }
+    : { text, hasBom: false };
+}
+
+// Counts each candidate delimiter in the first record, ignoring quoted sections.
+// The most frequent one wins; ties go to tab, which is what Monday.com copies as.
+function detectDelimiter(text: string): InputDelimiter {
+  const counts = new Map<InputDelimiter, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char as InputDelimiter)) {
+      counts.set(char as InputDelimiter, counts.get(char as InputDelimiter)! + 1);
+    }
+  }
+  let best: InputDelimiter = '\t';
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    if (counts.get(delimiter)! > counts.get(best)!) {
+      best = delimiter;
+    }
+  }
+  return best;
+}
+
+function detectLineEnding(text: string): DelimitedTextDialect['lineEnding'] {
+  const crlf = (text.match(/\r\n/g) || []).length;
+  const lf = (text.match(/\n/g) || []).length - crlf;
+  const cr = (text.match(/\r/g) || []).length - crlf;
+  const kinds = [crlf > 0, lf > 0, cr > 0].filter(Boolean).length;
+  if (kinds > 1) return 'mixed';
+  if (crlf > 0) return 'CRLF';
+  if (cr > 0) return 'CR';
+  return 'LF';
+}
+
+// A quote right at the start of a field opens a quoted field.
+function hasQuotedFields(text: string, delimiter: InputDelimiter): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"' && (i === 0 || text[i - 1] === delimiter || text[i - 1] === '\n' || text[i - 1] === '\r')) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function detectDialect(rawText: string): DelimitedTextDialect {
+  const { text, hasBom } = stripBom(rawText);
+  const delimiter = detectDelimiter(text);
+  return {
+    delimiter,
+    lineEnding: detectLineEnding(text),
+    hasBom,
+    hasQuotedFields: hasQuotedFields(text, delimiter),
+  };
+}
+
+// Quotes a field per RFC 4180 when it contains the delimiter, a quote or a line break,
+// doubling any embedded quotes. Values are never altered otherwise.
+export function quoteField(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+// Writes rows of cells as tab-separated text that parseDelimitedText reads back unchanged.
+export function formatDelimitedText(rows: string[][]): string {
+  return rows.map(cells => cells.map(cell => quoteField(cell, '\t')).join('\t')).join('\n');
+}
+
+export function describeDialect(dialect: DelimitedTextDialect): string {
+  const parts = [DELIMITER_LABELS[dialect.delimiter], `${dialect.lineEnding} line endings`];
+  if (dialect.hasBom) parts.push('UTF-8 BOM');
+  if (dialect.hasQuotedFields) parts.push('quoted fields');
+  return parts.join(', ');
+}
+
+/**
+ * Tokenizes delimited text following RFC 4180: fields may be wrapped in double quotes,
+ * quoted fields may contain delimiters and line breaks, and "" inside quotes is a literal
+ * quote. LF, CRLF and lone CR all end a record, and a leading BOM is ignored.
+ *
+ * Parsing is lenient the way spreadsheet pastes need it to be: a quote in the middle of
+ * an unquoted field is kept literally, and text after a closing quote is appended to the
+ * field. Records that are completely empty are dropped. Each row keeps the 1-based line
+ * number it starts on so messages can point at the pasted text.
+ */
+export function parseDelimitedText(
+  rawText: string,
+  delimiter?: InputDelimiter
+): { rows: DelimitedRow[]; dialect: DelimitedTextDialect } {
+  const detected = detectDialect(rawText);
+  const dialect = delimiter && delimiter !== detected.delimiter
+    ? { ...detected, delimiter, hasQuotedFields: hasQuotedFields(rawText, delimiter) }
+    : detected;
+  const text = dialect.hasBom ? rawText.slice(1) : rawText;
+  const sep = dialect.delimiter;
+
+  const rows: DelimitedRow[] = [];
+  let cells: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldStarted = false; // Whether any character (or an opening quote) has been read for the current field
+  let line = 1;
+  let rowStartLine = 1;
+
+  const endField = () => {
+    cells.push(field);
+    field = '';
+    fieldStarted = false;
+  };
+  const endRow = () => {
+    endField();
+    if (cells.length > 1 || cells[0] !== '') {
+      rows.push({ cells, line: rowStartLine });
+    }
+    cells = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && !fieldStarted) {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (char === sep) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+      rowStartLine = line;
+    } else {
+      field += char;
+      fieldStarted = true;
+    }
+  }
+
+  if (fieldStarted || field !== '' || cells.length > 0) {
+    endRow();
+  }
+
+  return { rows, dialect };
+}
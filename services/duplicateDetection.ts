@@ -0,0 +1,179 @@
+import { ProcessedGameData, DuplicateConflict, DuplicateResolutionStrategy, UniqueField, ValidationIssue, BaselineExport, SlugRules } from '../types';
+import { UNIQUE_FIELD_SEVERITIES, DEFAULT_SLUG_RULES } from '../constants';
+import { suffixSlug } from './slugs';
+
+const UNIQUE_FIELDS = Object.keys(UNIQUE_FIELD_SEVERITIES) as UniqueField[];
+
+// Values are compared trimmed and case-insensitively: the portal treats slugs and
+// library paths case-insensitively, and codes differing only by case are almost
+// always the same game pasted twice.
+function normalizeValue(value: string | undefined): string {
+  return (value ?? '').trim().toLowerCase();
+}
+
+export function findDuplicateConflicts(rows: ProcessedGameData[]): DuplicateConflict[] {
+  const conflicts: DuplicateConflict[] = [];
+  for (const field of UNIQUE_FIELDS) {
+    const rowsByValue = new Map<string, number[]>();
+    rows.forEach((row, rowIndex) => {
+      const key = normalizeValue(row[field]);
+      if (!key) return;
+      const indexes = rowsByValue.get(key);
+      if (indexes) {
+        indexes.push(rowIndex);
+      } else {
+        rowsByValue.set(key, [rowIndex]);
+      }
+    });
+    for (const rowIndexes of rowsByValue.values()) {
+      if (rowIndexes.length > 1) {
+        conflicts.push({ field, value: rows[rowIndexes[0]][field] ?? '', rowIndexes });
+      }
+    }
+  }
+  return conflicts;
+}
+
+function rowLine(row: ProcessedGameData, rowIndex: number): number {
+  return row.sourceLine ?? rowIndex + 2; // Header is line 1
+}
+
+// One issue per row involved in a conflict, pointing at the other rows sharing the value.
+export function conflictsToIssues(rows: ProcessedGameData[], conflicts: DuplicateConflict[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const conflict of conflicts) {
+    for (const rowIndex of conflict.rowIndexes) {
+      const otherLines = conflict.rowIndexes
+        .filter(other => other !== rowIndex)
+        .map(other => rowLine(rows[other], other));
+      issues.push({
+        line: rowLine(rows[rowIndex], rowIndex),
+        rowIndex,
+        column: conflict.field,
+        field: conflict.field,
+        severity: UNIQUE_FIELD_SEVERITIES[conflict.field],
+        skipped: false,
+        message: `Duplicate ${conflict.field} "${conflict.value}" also on line ${otherLines.join(', ')}.`,
+      });
+    }
+  }
+  return issues;
+}
+
+// Appends -2, -3, ... to repeated slugs, skipping any suffix already taken in the batch
+// or reserved, and keeping the suffixed slug within the slug rules.
+function suffixDuplicateSlugs(rows: ProcessedGameData[], slugRules: SlugRules, reservedSlugs: string[]): ProcessedGameData[] {
+  const taken = new Set([...rows.map(row => normalizeValue(row.seoFriendlyGameName)), ...reservedSlugs.map(normalizeValue)]);
+  const seen = new Set<string>();
+  return rows.map(row => {
+    const slug = row.seoFriendlyGameName;
+    const key = normalizeValue(slug);
+    if (!key || !seen.has(key)) {
+      seen.add(key);
+      return row;
+    }
+    const suffixedSlug = suffixSlug(slug, taken, slugRules);
+    taken.add(normalizeValue(suffixedSlug));
+    return { ...row, seoFriendlyGameName: suffixedSlug };
+  });
+}
+
+// Slugs of the games in a catalog dump or earlier export, for keeping new slugs clear of them.
+export function catalogSlugs(baseline: BaselineExport): string[] {
+  return baseline.rows.map(record => record.seoFriendlyGameName ?? '').filter(Boolean);
+}
+
+/**
+ * Rows whose slug a different game (by gameCode) already has in the catalog, i.e. the
+ * baseline loaded for the diff. The suggested slug is suffixed past every slug in the
+ * catalog and the batch and fits the slug rules.
+ */
+export function findCatalogSlugIssues(rows: ProcessedGameData[], baseline: BaselineExport, slugRules: SlugRules = DEFAULT_SLUG_RULES): ValidationIssue[] {
+  const ownerBySlug = new Map<string, string>();
+  for (const record of baseline.rows) {
+    const key = normalizeValue(record.seoFriendlyGameName);
+    if (key && record.gameCode && !ownerBySlug.has(key)) {
+      ownerBySlug.set(key, record.gameCode);
+    }
+  }
+  const taken = new Set([...ownerBySlug.keys(), ...rows.map(row => normalizeValue(row.seoFriendlyGameName))]);
+  const issues: ValidationIssue[] = [];
+  rows.forEach((row, rowIndex) => {
+    const owner = ownerBySlug.get(normalizeValue(row.seoFriendlyGameName));
+    if (!owner || normalizeValue(owner) === normalizeValue(row.gameCode)) return;
+    const suggestedValue = suffixSlug(row.seoFriendlyGameName, taken, slugRules);
+    taken.add(normalizeValue(suggestedValue));
+    issues.push({
+      line: rowLine(row, rowIndex),
+      rowIndex,
+      column: 'seoFriendlyGameName',
+      field: 'seoFriendlyGameName',
+      severity: UNIQUE_FIELD_SEVERITIES.seoFriendlyGameName,
+      skipped: false,
+      message: `Slug "${row.seoFriendlyGameName}" is already used by ${owner} in ${baseline.fileName}. Suggested: "${suggestedValue}".`,
+      suggestedValue,
+    });
+  });
+  return issues;
+}
+
+// A repeated game code or slug means the same game twice; a shared article or image only
+// earns a warning and is no reason to drop a game.
+const ROW_KEY_FIELDS = UNIQUE_FIELDS.filter(field => UNIQUE_FIELD_SEVERITIES[field] === 'error');
+
+/**
+ * Indexes of the rows keepFirst/keepLast keep, in input order, for markets whose rows are
+ * the same games at the same indexes. A row is dropped when, in any market, it repeats
+ * an error-level unique field of a row already kept, so every market loses the same rows
+ * even where slugs differ between them.
+ */
+export function findKeptRowIndexes(rowsByMarket: ProcessedGameData[][], strategy: Exclude<DuplicateResolutionStrategy, 'suffixSlug'>): number[] {
+  const order = (rowsByMarket[0] ?? []).map((_, index) => index);
+  if (strategy === 'keepLast') {
+    order.reverse();
+  }
+  const seenByMarket = rowsByMarket.map(() => new Map<UniqueField, Set<string>>(ROW_KEY_FIELDS.map(field => [field, new Set<string>()])));
+  const keptIndexes: number[] = [];
+  for (const rowIndex of order) {
+    const valuesByMarket = rowsByMarket.map(rows => ROW_KEY_FIELDS.map(field => [field, normalizeValue(rows[rowIndex]?.[field])] as const));
+    const repeats = valuesByMarket.some((values, market) => values.some(([field, value]) => value && seenByMarket[market].get(field)!.has(value)));
+    if (repeats) {
+      continue;
+    }
+    valuesByMarket.forEach((values, market) => values.forEach(([field, value]) => value && seenByMarket[market].get(field)!.add(value)));
+    keptIndexes.push(rowIndex);
+  }
+  return keptIndexes.sort((a, b) => a - b);
+}
+
+/**
+ * Applies a resolution strategy to the batch. keepFirst/keepLast drop every row that
+ * repeats a game code, mobile game code or slug of a row that is kept (see
+ * findKeptRowIndexes); suffixSlug only renames repeated seoFriendlyGameName values and
+ * keeps all rows, avoiding reservedSlugs (such as the catalog's) and following slugRules.
+ *
+ * keptIndexes maps each returned row to its index in the input, so row-indexed state
+ * such as validation issues can be carried over with remapIssueRows.
+ */
+export function resolveDuplicates(
+  rows: ProcessedGameData[],
+  strategy: DuplicateResolutionStrategy,
+  slugRules: SlugRules = DEFAULT_SLUG_RULES,
+  reservedSlugs: string[] = []
+): { rows: ProcessedGameData[]; keptIndexes: number[] } {
+  if (strategy === 'suffixSlug') {
+    return { rows: suffixDuplicateSlugs(rows, slugRules, reservedSlugs), keptIndexes: rows.map((_, index) => index) };
+  }
+  const keptIndexes = findKeptRowIndexes([rows], strategy);
+  return { rows: keptIndexes.map(index => rows[index]), keptIndexes };
+}
+
+// Re-points issues at the rows' new indexes, dropping issues of rows that were removed.
+export function remapIssueRows(issues: ValidationIssue[], keptIndexes: number[]): ValidationIssue[] {
+  const newIndexByOld = new Map(keptIndexes.map((oldIndex, newIndex) => [oldIndex, newIndex]));
+  return issues.flatMap(issue => {
+    if (issue.rowIndex === undefined) return [issue];
+    const rowIndex = newIndexByOld.get(issue.rowIndex);
+    return rowIndex === undefined ? [] : [{ ...issue, rowIndex }];
+  });
+}
@@ -0,0 +1,90 @@
+import { BaselineExport, DiffResult, DiffStatus, OutputColumnKey, ProcessedGameData, RowDiff } from '../types';
+import { OUTPUT_CSV_COLUMNS } from '../constants';
+import { parseDelimitedText } from './delimitedText';
+import { formatCellValue } from './dataProcessor';
+
+function matchKey(gameCode: string): string {
+  return gameCode.trim().toLowerCase();
+}
+
+// Reads a file written by generateCsvContent (any supported format) or a catalog dump
+// that uses the same column names.
+export function parseBaselineExport(text: string, fileName: string): BaselineExport {
+  const { rows } = parseDelimitedText(text);
+  if (rows.length === 0) {
+    throw new Error(`${fileName} is empty.`);
+  }
+  const columns = rows[0].cells.map(cell => cell.trim());
+  if (!columns.includes('gameCode')) {
+    throw new Error(`${fileName} has no gameCode column to match rows on.`);
+  }
+  return {
+    fileName,
+    columns,
+    rows: rows.slice(1).map(({ cells }) => {
+      const record: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        record[column] = (cells[index] ?? '').trim();
+      });
+      return record;
+    }),
+  };
+}
+
+/**
+ * Matches current rows to the baseline by gameCode (case-insensitively) and compares
+ * every output column the baseline also has, using the same formatting as the export.
+ */
+export function diffAgainstBaseline(current: ProcessedGameData[], baseline: BaselineExport): DiffResult {
+  const comparedColumns = OUTPUT_CSV_COLUMNS.filter(column => column !== 'gameCode' && baseline.columns.includes(column));
+  const baselineByCode = new Map<string, Record<string, string>>();
+  for (const record of baseline.rows) {
+    if (record.gameCode) {
+      baselineByCode.set(matchKey(record.gameCode), record);
+    }
+  }
+
+  const rows: RowDiff[] = [];
+  const matchedCodes = new Set<string>();
+  current.forEach((row, rowIndex) => {
+    const key = matchKey(row.gameCode);
+    const previous = baselineByCode.get(key);
+    if (!previous) {
+      rows.push({ gameCode: row.gameCode, status: 'added', rowIndex, changes: {} });
+      return;
+    }
+    matchedCodes.add(key);
+    const changes: Partial<Record<OutputColumnKey, string>> = {};
+    for (const column of comparedColumns) {
+      if (formatCellValue(row[column]).trim() !== previous[column]) {
+        changes[column] = previous[column];
+      }
+    }
+    rows.push({ gameCode: row.gameCode, status: Object.keys(changes).length > 0 ? 'changed' : 'unchanged', rowIndex, changes });
+  });
+
+  for (const [key, record] of baselineByCode) {
+    if (!matchedCodes.has(key)) {
+      rows.push({ gameCode: record.gameCode, status: 'removed', changes: {} });
+    }
+  }
+
+  const counts: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  rows.forEach(row => counts[row.status]++);
+  return { rows, comparedColumns, counts };
+}
+
+export function selectRowsByStatus(current: ProcessedGameData[], diff: DiffResult, status: DiffStatus): ProcessedGameData[] {
+  return diff.rows
+    .filter(row => row.status === status && row.rowIndex !== undefined)
+    .map(row => current[row.rowIndex!]);
+}
+
+// Columns for a changeset file: gameCode plus every column that changed in any row,
+// in output order. Rows carry their current value for each of those columns, so a
+// column changed on one game is re-sent unchanged for the others.
+export function changesetColumns(diff: DiffResult): OutputColumnKey[] {
+  const changed = new Set<OutputColumnKey>();
+  diff.rows.forEach(row => (Object.keys(row.changes) as OutputColumnKey[]).forEach(column => changed.add(column)));
+  return ['gameCode', ...OUTPUT_CSV_COLUMNS.filter(column => changed.has(column))];
+}
@@ -0,0 +1,62 @@
+import { CsvOutputOptions, OutputColumnKey, ProcessedGameData, ValidationIssue } from '../types';
+import { generateCsvContent } from './dataProcessor';
+import { writeXlsxWorkbook } from './xlsxWriter';
+
+// The row's output columns in column order, with booleans kept as booleans. Optional
+// columns without a value are left out, as in ProcessedGameData.
+function toJsonRecord(row: ProcessedGameData, columns: OutputColumnKey[]): Partial<ProcessedGameData> {
+  return Object.fromEntries(columns.filter(column => row[column] !== undefined).map(column => [column, row[column]]));
+}
+
+export function generateJsonContent(rows: ProcessedGameData[], columns: OutputColumnKey[]): string {
+  return JSON.stringify(rows.map(row => toJsonRecord(row, columns)), null, 2) + '\n';
+}
+
+// Newline-delimited JSON: one game object per line.
+export function generateNdjsonContent(rows: ProcessedGameData[], columns: OutputColumnKey[]): string {
+  return rows.map(row => JSON.stringify(toJsonRecord(row, columns)) + '\n').join('');
+}
+
+/**
+ * A workbook for review: the games with a frozen header row and real boolean cells, and
+ * a second sheet listing the validation issues passed in.
+ */
+export function generateXlsxContent(rows: ProcessedGameData[], columns: OutputColumnKey[], issues: ValidationIssue[]): Promise<Uint8Array> {
+  return writeXlsxWorkbook([
+    {
+      name: 'Games',
+      rows: [columns, ...rows.map(row => columns.map(column => row[column]))],
+      freezeHeader: true,
+    },
+    {
+      name: 'Validation Issues',
+      rows: [
+        ['Line', 'Severity', 'Column', 'Skipped', 'Message'],
+        ...issues.map(issue => [issue.line, issue.severity, issue.column, issue.skipped, issue.message]),
+      ],
+      freezeHeader: true,
+    },
+  ]);
+}
+
+/**
+ * Generates the export file in the chosen format. issues only end up in the XLSX
+ * workbook; the other formats carry the rows alone.
+ */
+export async function generateExportContent(
+  rows: ProcessedGameData[],
+  columns: OutputColumnKey[],
+  options: CsvOutputOptions,
+  issues: ValidationIssue[] = []
+): Promise<string | Uint8Array> {
+  switch (options.format) {
+    case 'json':
+      return generateJsonContent(rows, columns);
+    case 'ndjson':
+      return generateNdjsonContent(rows, columns);
+    case 'xlsx':
+      return generateXlsxContent(rows, columns, issues);
+    default:
+      return generateCsvContent(rows, columns, options);
+  }
+}
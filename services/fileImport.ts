@@ -0,0 +1,109 @@
+import { ImportedFile, ImportedSheet } from '../types';
+import { formatDelimitedText, parseDelimitedText } from './delimitedText';
+import { readXlsxSheets } from './xlsxReader';
+
+export const IMPORT_FILE_ACCEPT = '.tsv,.csv,.txt,.xlsx,.json,text/csv,text/tab-separated-values,text/plain,application/json,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function toCellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toSheet(name: string, rows: string[][]): ImportedSheet {
+  return { name, text: formatDelimitedText(rows), rowCount: rows.slice(1).filter(cells => cells.some(cell => cell !== '')).length };
+}
+
+// Items of an API response ({ data: { boards: [...] } }), a board or bare item list.
+// Boards may list items directly or, since API 2023-10, under items_page.
+function findMondayItems(json: unknown): { items: JsonRecord[]; columnTitles: Map<string, string> } | null {
+  const root = isRecord(json) && isRecord(json.data) ? json.data : json;
+  if (Array.isArray(root)) {
+    return root.some(item => isRecord(item) && Array.isArray(item.column_values)) ? { items: root.filter(isRecord), columnTitles: new Map() } : null;
+  }
+  if (!isRecord(root)) return null;
+
+  const columnTitles = new Map<string, string>();
+  const items: JsonRecord[] = [];
+  let hasBoard = false;
+  for (const board of Array.isArray(root.boards) ? root.boards.filter(isRecord) : [root]) {
+    const boardItems = Array.isArray(board.items) ? board.items : isRecord(board.items_page) && Array.isArray(board.items_page.items) ? board.items_page.items : null;
+    if (!boardItems) continue;
+    hasBoard = true;
+    items.push(...boardItems.filter(isRecord));
+    for (const column of Array.isArray(board.columns) ? board.columns.filter(isRecord) : []) {
+      if (typeof column.id === 'string' && typeof column.title === 'string') {
+        columnTitles.set(column.id, column.title);
+      }
+    }
+  }
+  return hasBoard ? { items, columnTitles } : null;
+}
+
+function columnTitle(columnValue: JsonRecord, columnTitles: Map<string, string>): string {
+  if (isRecord(columnValue.column) && typeof columnValue.column.title === 'string') return columnValue.column.title;
+  if (typeof columnValue.title === 'string') return columnValue.title;
+  return columnTitles.get(String(columnValue.id)) ?? String(columnValue.id ?? '');
+}
+
+/**
+ * Converts a Monday.com JSON export to rows with a header row. Items become rows with
+ * the item name under "Name" and each column value's display text under its column
+ * title. A plain array of flat objects is read the same way, keyed by property name.
+ */
+export function mondayJsonToRows(json: unknown): string[][] {
+  const monday = findMondayItems(json);
+  let records: Map<string, string>[];
+  if (monday) {
+    records = monday.items.map(item => {
+      const record = new Map<string, string>([['Name', toCellText(item.name)]]);
+      for (const columnValue of Array.isArray(item.column_values) ? item.column_values.filter(isRecord) : []) {
+        // Mirror and connected-board columns have no text, only a display_value
+        record.set(columnTitle(columnValue, monday.columnTitles), toCellText(columnValue.text ?? columnValue.display_value));
+      }
+      return record;
+    });
+  } else if (Array.isArray(json) && json.every(isRecord)) {
+    records = json.map(item => new Map(Object.entries(item).map(([key, value]) => [key, toCellText(value)])));
+  } else {
+    throw new Error("Expected a Monday.com board export (items with column_values) or an array of objects.");
+  }
+  if (records.length === 0) {
+    throw new Error("The JSON file has no items.");
+  }
+  const headers = [...new Set(records.flatMap(record => [...record.keys()]))];
+  return [headers, ...records.map(record => headers.map(header => record.get(header) ?? ''))];
+}
+
+/**
+ * Reads a dropped or picked file into text for parsePastedData, so imports and pastes go
+ * through the same parsing. TSV/CSV files are used as they are; workbooks yield one
+ * sheet per worksheet for the user to choose from.
+ */
+export async function importFile(fileName: string, content: ArrayBuffer): Promise<ImportedFile> {
+  const extension = fileName.toLowerCase().match(/\.([^.]+)$/)?.[1] ?? '';
+  if (extension === 'xlsx') {
+    const sheets = await readXlsxSheets(content);
+    return { fileName, format: 'xlsx', sheets: sheets.map(sheet => toSheet(sheet.name, sheet.rows)) };
+  }
+  if (extension === 'xls') {
+    throw new Error(`${fileName} is an old Excel (.xls) workbook; save it as .xlsx or CSV first.`);
+  }
+  const text = new TextDecoder().decode(content);
+  if (extension === 'json') {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (e) {
+      throw new Error(`${fileName} is not valid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+    return { fileName, format: 'mondayJson', sheets: [toSheet(fileName, mondayJsonToRows(json))] };
+  }
+  if (!text.trim()) {
+    throw new Error(`${fileName} is empty.`);
+  }
+  return { fileName, format: 'delimited', sheets: [{ name: fileName, text, rowCount: Math.max(0, parseDelimitedText(text).rows.length - 1) }] };
+}
@@ -0,0 +1,75 @@
+import { HeaderMappings } from '../types';
+import { INPUT_HEADER_MAPPINGS, INPUT_HEADER_ALIASES, CORE_REQUIRED_INPUT_HEADER_KEYS } from '../constants';
+
+type InputFieldKey = keyof typeof INPUT_HEADER_MAPPINGS;
+
+const STORAGE_KEY = 'csvCreator.headerMappings';
+const INPUT_FIELD_KEYS = Object.keys(INPUT_HEADER_MAPPINGS) as InputFieldKey[];
+
+// Thrown by parsePastedData when a core column can't be matched, carrying what the
+// mapping dialog needs to let the user pick the column themselves.
+export class MissingHeadersError extends Error {
+  constructor(
+    public readonly missingFields: InputFieldKey[],
+    public readonly headers: string[],
+    public readonly sampleRow: string[]
+  ) {
+    super(`Missing required headers: ${missingFields.map(field => INPUT_HEADER_MAPPINGS[field]).join(', ')}.`);
+    this.name = 'MissingHeadersError';
+  }
+}
+
+// "IMS game code", "ims Game Code " and "IMSGameCode" all compare equal.
+export function normalizeHeader(header: string): string {
+  return header.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * Finds the pasted column for each input field. A column the user mapped explicitly
+ * wins, then the field's own header name, then its aliases. Each pasted column is
+ * claimed by at most one field.
+ */
+export function matchHeaders(
+  headerCells: string[],
+  savedMappings: HeaderMappings = {}
+): { indices: Partial<Record<InputFieldKey, number>>; missingRequired: InputFieldKey[] } {
+  const normalizedHeaders = headerCells.map(normalizeHeader);
+  const claimed = new Set<number>();
+  const indices: Partial<Record<InputFieldKey, number>> = {};
+
+  const claim = (field: InputFieldKey, candidate: string | undefined) => {
+    if (indices[field] !== undefined || !candidate) return;
+    const normalized = normalizeHeader(candidate);
+    const index = normalizedHeaders.findIndex((header, i) => header === normalized && !claimed.has(i));
+    if (index !== -1) {
+      indices[field] = index;
+      claimed.add(index);
+    }
+  };
+
+  INPUT_FIELD_KEYS.forEach(field => claim(field, savedMappings[field]));
+  INPUT_FIELD_KEYS.forEach(field => claim(field, INPUT_HEADER_MAPPINGS[field]));
+  INPUT_FIELD_KEYS.forEach(field => (INPUT_HEADER_ALIASES[field] ?? []).forEach(alias => claim(field, alias)));
+
+  const missingRequired = CORE_REQUIRED_INPUT_HEADER_KEYS.filter(field => indices[field] === undefined);
+  return { indices, missingRequired };
+}
+
+export function loadHeaderMappings(): HeaderMappings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return Object.fromEntries(
+        Object.entries(parsed).filter(([field, header]) => field in INPUT_HEADER_MAPPINGS && typeof header === 'string')
+      );
+    }
+  } catch (e) {
+    console.warn("Ignoring stored header mappings:", e);
+  }
+  return {};
+}
+
+export function saveHeaderMappings(mappings: HeaderMappings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+}
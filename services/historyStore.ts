@@ -0,0 +1,65 @@
+import { HistoryRun } from '../types';
+import { OUTPUT_FORMATS } from '../constants';
+
+const DB_NAME = 'csvCreator';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+
+// Oldest runs are dropped past this; each run keeps its file and rows.
+export const MAX_HISTORY_RUNS = 50;
+
+// Generated files are kept in IndexedDB rather than local storage, which is too small
+// for more than a few batches.
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+      store.createIndex('createdAt', 'createdAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(RUNS_STORE, mode);
+      const request = action(transaction.objectStore(RUNS_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Only delimited files can serve as the baseline for a comparison.
+export function isDelimitedRun(run: HistoryRun): run is HistoryRun & { content: string } {
+  return typeof run.content === 'string' && OUTPUT_FORMATS[run.format ?? 'csv'].delimiter !== undefined;
+}
+
+// Newest first.
+export async function listHistoryRuns(): Promise<HistoryRun[]> {
+  const runs = await withStore<HistoryRun[]>('readonly', store => store.getAll());
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function addHistoryRun(run: HistoryRun): Promise<void> {
+  await withStore('readwrite', store => store.put(run));
+  const runs = await listHistoryRuns();
+  for (const old of runs.slice(MAX_HISTORY_RUNS)) {
+    await deleteHistoryRun(old.id);
+  }
+}
+
+export async function deleteHistoryRun(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function clearHistory(): Promise<void> {
+  await withStore('readwrite', store => store.clear());
+}
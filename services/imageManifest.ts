@@ -0,0 +1,152 @@
+import { ImageManifest, ProcessedGameData, ValidationIssue } from '../types';
+import { IMAGE_OUTPUT_FIELDS } from '../constants';
+import { readZipEntryNames } from './zipArchive';
+import { editDistance } from './textDistance';
+
+const LIBRARY_ROOT = '/library/';
+
+function safeDecode(path: string): string {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path; // Stray "%" that isn't an escape; compare as typed
+  }
+}
+
+/**
+ * Brings a manifest entry or an output image path to the form used for comparison:
+ * decoded, forward slashes, rooted at /library/. Entries relative to the library
+ * ("Game Icons/AGS/x.webp", "./Game Icons/...") are placed under it.
+ */
+export function normalizeLibraryPath(path: string): string {
+  let normalized = safeDecode(path.trim().split(/[?#]/)[0]).replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/{2,}/g, '/');
+  if (!normalized.startsWith('/')) {
+    normalized = `/${normalized}`;
+  }
+  if (!normalized.toLowerCase().startsWith(LIBRARY_ROOT)) {
+    normalized = `${LIBRARY_ROOT.slice(0, -1)}${normalized}`;
+  }
+  return normalized;
+}
+
+function toManifest(fileName: string, entries: string[]): ImageManifest {
+  const paths = entries
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '' && !entry.endsWith('/')) // Skip directory entries
+    .map(normalizeLibraryPath);
+  if (paths.length === 0) {
+    throw new Error(`${fileName} doesn't list any files.`);
+  }
+  return { fileName, paths: [...new Set(paths)] };
+}
+
+/**
+ * Reads a manifest from a zip of the asset tree, a JSON array of paths (or an object
+ * with a "files" array) or a plain listing with one path per line, e.g. `find . -type f`.
+ */
+export function parseImageManifest(fileName: string, content: ArrayBuffer): ImageManifest {
+  if (fileName.toLowerCase().endsWith('.zip')) {
+    return toManifest(fileName, readZipEntryNames(content));
+  }
+  const text = new TextDecoder().decode(content);
+  if (/^\s*[[{]/.test(text)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      throw new Error(`${fileName} is not valid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+    const files = Array.isArray(parsed) ? parsed : (parsed as { files?: unknown })?.files;
+    if (!Array.isArray(files) || !files.every(file => typeof file === 'string')) {
+      throw new Error(`${fileName} must be a JSON array of paths or an object with a "files" array.`);
+    }
+    return toManifest(fileName, files);
+  }
+  return toManifest(fileName, text.split(/\r\n|\n|\r/));
+}
+
+const folderOf = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+const baseNameOf = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+const stemOf = (path: string) => path.replace(/\.[^./]*$/, '');
+
+function indexBy(paths: string[], key: (path: string) => string): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const path of paths) {
+    const k = key(path);
+    const group = index.get(k);
+    if (group) {
+      group.push(path);
+    } else {
+      index.set(k, [path]);
+    }
+  }
+  return index;
+}
+
+// Lookups built once per manifest; checking a batch then costs a few map reads per image.
+function createLookup(manifest: ImageManifest) {
+  return {
+    exact: new Set(manifest.paths),
+    byLowerPath: indexBy(manifest.paths, path => path.toLowerCase()),
+    byLowerStem: indexBy(manifest.paths, path => stemOf(path).toLowerCase()),
+    byLowerFolder: indexBy(manifest.paths, path => folderOf(path).toLowerCase()),
+    byLowerBaseName: indexBy(manifest.paths, path => baseNameOf(path).toLowerCase()),
+  };
+}
+
+// Closest file in the same folder by name, or else a file with the same name elsewhere.
+function suggestFile(path: string, lookup: ReturnType<typeof createLookup>): string | undefined {
+  const siblings = lookup.byLowerFolder.get(folderOf(path).toLowerCase());
+  if (siblings) {
+    const name = baseNameOf(path).toLowerCase();
+    const [closest] = siblings
+      .map(sibling => ({ sibling, distance: editDistance(name, baseNameOf(sibling).toLowerCase()) }))
+      .sort((a, b) => a.distance - b.distance);
+    if (closest.distance <= Math.max(3, Math.floor(name.length / 3))) {
+      return closest.sibling;
+    }
+  }
+  return lookup.byLowerBaseName.get(baseNameOf(path).toLowerCase())?.[0];
+}
+
+function describeMismatch(path: string, lookup: ReturnType<typeof createLookup>): string | null {
+  if (lookup.exact.has(path)) return null;
+  const caseMatch = lookup.byLowerPath.get(path.toLowerCase())?.[0];
+  if (caseMatch) {
+    return `Wrong casing: the library has "${caseMatch}".`;
+  }
+  const extensionMatch = lookup.byLowerStem.get(stemOf(path).toLowerCase())?.[0];
+  if (extensionMatch) {
+    return `Wrong extension: the library has "${extensionMatch}".`;
+  }
+  const suggestion = suggestFile(path, lookup);
+  return `Not in the library${suggestion ? `; closest file is "${suggestion}"` : ''}.`;
+}
+
+/**
+ * Checks every library image path in the rows (generated and supplied) against the
+ * manifest. Absolute http(s) URLs point outside the library and are not checked.
+ */
+export function verifyImages(rows: ProcessedGameData[], manifest: ImageManifest): ValidationIssue[] {
+  const lookup = createLookup(manifest);
+  const issues: ValidationIssue[] = [];
+  rows.forEach((row, rowIndex) => {
+    for (const field of IMAGE_OUTPUT_FIELDS) {
+      const value = row[field];
+      if (typeof value !== 'string' || !value.trim() || /^https?:\/\//i.test(value.trim())) continue;
+      const message = describeMismatch(normalizeLibraryPath(value), lookup);
+      if (message) {
+        issues.push({
+          line: row.sourceLine ?? rowIndex + 2,
+          rowIndex,
+          column: field,
+          field,
+          severity: 'warning',
+          skipped: false,
+          message: `Image ${value}: ${message}`,
+        });
+      }
+    }
+  });
+  return issues;
+}
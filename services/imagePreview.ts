@@ -0,0 +1,18 @@
+import { OutputColumnKey } from '../types';
+import { LAYOUT_ORIENTATIONS, LAYOUT_SIZES, LAYOUT_IMAGE_VARIANTS } from '../constants';
+
+// Library paths are root-relative on the portal, so previews need the market's host;
+// absolute URLs pass through. Without a host the path is loaded from this app's origin.
+export function resolveImagePreviewUrl(path: string, host?: string): string {
+  const trimmed = path.trim();
+  if (!trimmed || !host || /^https?:\/\//i.test(trimmed)) return trimmed;
+  return `${host.trim().replace(/\/+$/, '')}/${trimmed.replace(/^\/+/, '')}`;
+}
+
+export function layoutImageField(
+  orientation: typeof LAYOUT_ORIENTATIONS[number],
+  size: typeof LAYOUT_SIZES[number],
+  variant: typeof LAYOUT_IMAGE_VARIANTS[number]
+): OutputColumnKey {
+  return `${orientation}_layout${size}_${variant}` as OutputColumnKey;
+}
@@ -0,0 +1,65 @@
+import { ProcessedGameData, MarketProfile, ImageSource, OutputColumnKey } from '../types';
+import { LAYOUT_ORIENTATIONS, LAYOUT_SIZES, LAYOUT_IMAGE_VARIANTS, LAYOUT_IMAGE_TEMPLATE_PLACEHOLDERS } from '../constants';
+import { layoutImageField } from './imagePreview';
+
+type TemplateValues = Record<keyof typeof LAYOUT_IMAGE_TEMPLATE_PLACEHOLDERS, string>;
+
+// {variant} drops the "Image" suffix of the field name: mainImage -> main.
+const variantToken = (variant: typeof LAYOUT_IMAGE_VARIANTS[number]) => variant.replace(/Image$/, '');
+
+// Replaces {placeholder} tokens with URL-encoded values; unknown tokens are left as typed
+// so a typo shows up in the preview instead of silently producing a different path.
+export function expandLayoutImageTemplate(template: string, values: TemplateValues): string {
+  return template.replace(/\{(\w+)\}/g, (token, name: string) =>
+    name in values ? encodeURIComponent(values[name as keyof TemplateValues]) : token
+  );
+}
+
+// Names of placeholders in the template that expandLayoutImageTemplate doesn't know.
+export function findUnknownPlaceholders(template: string): string[] {
+  return [...template.matchAll(/\{(\w+)\}/g)]
+    .map(match => match[1])
+    .filter(name => !(name in LAYOUT_IMAGE_TEMPLATE_PLACEHOLDERS));
+}
+
+/**
+ * Fills blank layout image columns for the market. Supplied values always win; with
+ * copyMainImages a supplied main image is reused for its blank mobile/guest slots, and
+ * whatever is still blank comes from the market's template. Filled fields are listed in
+ * imageSources so the preview can tell them apart from supplied ones.
+ */
+export function fillLayoutImages(row: ProcessedGameData, market: MarketProfile, providerFolder: string): ProcessedGameData {
+  const template = market.layoutImageTemplate?.trim();
+  if (!template && !market.copyMainImages) return row;
+
+  const filled: Record<string, string> = {}; // Layout image fields are all strings
+  const imageSources: Partial<Record<OutputColumnKey, ImageSource>> = {};
+
+  for (const orientation of LAYOUT_ORIENTATIONS) {
+    for (const layout of LAYOUT_SIZES) {
+      const mainField = layoutImageField(orientation, layout, 'mainImage');
+      const mainImage = row[mainField];
+      for (const variant of LAYOUT_IMAGE_VARIANTS) {
+        const field = layoutImageField(orientation, layout, variant);
+        if (row[field]) continue;
+        if (market.copyMainImages && variant !== 'mainImage' && typeof mainImage === 'string' && mainImage) {
+          filled[field] = mainImage;
+          imageSources[field] = 'copiedFromMain';
+        } else if (template) {
+          filled[field] = expandLayoutImageTemplate(template, {
+            providerFolder,
+            provider: row.gameProvider,
+            gameCode: row.gameCode,
+            slug: row.seoFriendlyGameName,
+            orientation,
+            layout,
+            variant: variantToken(variant),
+          });
+          imageSources[field] = 'template';
+        }
+      }
+    }
+  }
+
+  return Object.keys(imageSources).length > 0 ? { ...row, ...filled, imageSources } : row;
+}
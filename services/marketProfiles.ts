@@ -0,0 +1,73 @@
+import { MarketProfile, SlugRules } from '../types';
+import { DEFAULT_MARKET_PROFILES, DEFAULT_IMAGE_ROOT, DEFAULT_SLUG_RULES } from '../constants';
+
+const PROFILES_STORAGE_KEY = 'csvCreator.marketProfiles';
+const SELECTED_MARKETS_STORAGE_KEY = 'csvCreator.selectedMarkets';
+
+// Stored slug rules with any missing or malformed setting taken from the defaults.
+function parseSlugRules(value: unknown): SlugRules | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const rules = value as Partial<Record<keyof SlugRules, unknown>>;
+  return {
+    ampersandWord: typeof rules.ampersandWord === 'string' ? rules.ampersandWord : DEFAULT_SLUG_RULES.ampersandWord,
+    stopWords: Array.isArray(rules.stopWords) ? rules.stopWords.filter((word): word is string => typeof word === 'string') : DEFAULT_SLUG_RULES.stopWords,
+    maxLength: typeof rules.maxLength === 'number' && rules.maxLength >= 0 ? rules.maxLength : DEFAULT_SLUG_RULES.maxLength,
+    expandUmlauts: rules.expandUmlauts === true,
+  };
+}
+
+export function loadMarketProfiles(): MarketProfile[] {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (stored) {
+      const parsed: unknown = JSON.parse(stored);
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        return parsed
+          .filter(item => item && typeof item.id === 'string' && typeof item.label === 'string')
+          .map(item => ({
+            id: item.id,
+            label: item.label,
+            imageRoot: typeof item.imageRoot === 'string' ? item.imageRoot : DEFAULT_IMAGE_ROOT,
+            defaultFlags: typeof item.defaultFlags === 'object' && item.defaultFlags ? item.defaultFlags : {},
+            columnProfileId: typeof item.columnProfileId === 'string' ? item.columnProfileId : undefined,
+            previewHost: typeof item.previewHost === 'string' ? item.previewHost : undefined,
+            layoutImageTemplate: typeof item.layoutImageTemplate === 'string' ? item.layoutImageTemplate : undefined,
+            copyMainImages: item.copyMainImages === true,
+            slugRules: parseSlugRules(item.slugRules),
+          }));
+      }
+    }
+  } catch (e) {
+    console.warn("Ignoring stored market profiles:", e);
+  }
+  return DEFAULT_MARKET_PROFILES;
+}
+
+export function saveMarketProfiles(profiles: MarketProfile[]): void {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function loadSelectedMarketIds(): string[] {
+  try {
+    const stored = localStorage.getItem(SELECTED_MARKETS_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (Array.isArray(parsed) && parsed.every(id => typeof id === 'string')) {
+      return parsed;
+    }
+  } catch (e) {
+    console.warn("Ignoring stored market selection:", e);
+  }
+  return [DEFAULT_MARKET_PROFILES[0].id];
+}
+
+export function saveSelectedMarketIds(ids: string[]): void {
+  localStorage.setItem(SELECTED_MARKETS_STORAGE_KEY, JSON.stringify(ids));
+}
+
+export function createMarketProfile(existing: MarketProfile[]): MarketProfile {
+  let suffix = existing.length + 1;
+  while (existing.some(profile => profile.id === `MARKET${suffix}`)) {
+    suffix++;
+  }
+  return { id: `MARKET${suffix}`, label: `Market ${suffix}`, imageRoot: DEFAULT_IMAGE_ROOT, defaultFlags: {} };
+}
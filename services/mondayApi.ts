@@ -0,0 +1,173 @@
+import { HeaderMappings, MondayBoard, MondayColumn, MondayItemQuery, MondaySourceSettings } from '../types';
+import { MONDAY_API_URL, MONDAY_API_VERSION } from '../constants';
+import { matchHeaders } from './headerMatching';
+
+const SOURCE_STORAGE_KEY = 'csvCreator.mondaySource';
+const ITEMS_PAGE_LIMIT = 200;
+
+// Board columns have ids; the item name lives in the built-in "name" column
+const ITEM_NAME_COLUMN_ID = 'name';
+
+export const EMPTY_MONDAY_SOURCE: MondaySourceSettings = { boardId: '', groupIds: [], filterColumnId: '', filterValues: [] };
+
+export interface MondayConnection {
+  apiToken: string;
+  endpoint?: string; // Defaults to MONDAY_API_URL, e.g. a local mock server in tests
+}
+
+interface MondayColumnValue {
+  id: string;
+  text: string | null;
+  display_value?: string | null; // Mirror and connected-board columns have no text
+}
+
+interface MondayItem {
+  id: string;
+  name: string;
+  column_values: MondayColumnValue[];
+}
+
+interface MondayItemsPage {
+  cursor: string | null;
+  items: MondayItem[];
+}
+
+const ITEMS_PAGE_FIELDS = `cursor items { id name column_values(ids: $columnIds) { id text ... on MirrorValue { display_value } ... on BoardRelationValue { display_value } } }`;
+
+const BOARD_QUERY = `query ($boardId: ID!) { boards(ids: [$boardId]) { id name columns { id title } groups { id title } } }`;
+const BOARD_ITEMS_QUERY = `query ($boardId: ID!, $columnIds: [String!], $limit: Int!) { boards(ids: [$boardId]) { items_page(limit: $limit) { ${ITEMS_PAGE_FIELDS} } } }`;
+const GROUP_ITEMS_QUERY = `query ($boardId: ID!, $groupId: String!, $columnIds: [String!], $limit: Int!) { boards(ids: [$boardId]) { groups(ids: [$groupId]) { items_page(limit: $limit) { ${ITEMS_PAGE_FIELDS} } } } }`;
+const NEXT_ITEMS_QUERY = `query ($cursor: String!, $columnIds: [String!], $limit: Int!) { next_items_page(cursor: $cursor, limit: $limit) { ${ITEMS_PAGE_FIELDS} } }`;
+
+// GraphQL errors come as errors[].message; older API versions use error_message.
+function errorMessages(body: unknown): string[] {
+  if (typeof body !== 'object' || body === null) return [];
+  const { errors, error_message } = body as { errors?: { message?: string }[]; error_message?: string };
+  const messages = Array.isArray(errors) ? errors.map(error => error?.message).filter((message): message is string => !!message) : [];
+  return typeof error_message === 'string' ? [...messages, error_message] : messages;
+}
+
+async function requestMonday<T>(connection: MondayConnection, query: string, variables: Record<string, unknown>): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(connection.endpoint || MONDAY_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': connection.apiToken,
+        'API-Version': MONDAY_API_VERSION,
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+  } catch (e) {
+    throw new Error(`Could not reach Monday.com: ${e instanceof Error ? e.message : e}`);
+  }
+  const body: unknown = await response.json().catch(() => null);
+  if (response.status === 401 || response.status === 403) {
+    throw new Error("Monday.com rejected the API token.");
+  }
+  const messages = errorMessages(body);
+  if (!response.ok || messages.length > 0) {
+    throw new Error(`Monday.com API error: ${messages.join('; ') || `HTTP ${response.status}`}`);
+  }
+  return (body as { data: T }).data;
+}
+
+/**
+ * Fetches a board's name, columns and groups, so the user can pick groups and a filter
+ * column before any items are loaded.
+ */
+export async function fetchMondayBoard(connection: MondayConnection, boardId: string): Promise<MondayBoard> {
+  if (!/^\d+$/.test(boardId.trim())) {
+    throw new Error("The board ID is the number in the board's URL.");
+  }
+  const data = await requestMonday<{ boards: MondayBoard[] }>(connection, BOARD_QUERY, { boardId: boardId.trim() });
+  const board = data.boards[0];
+  if (!board) {
+    throw new Error(`Board ${boardId.trim()} was not found, or the API token can't access it.`);
+  }
+  return board;
+}
+
+/**
+ * Board columns whose titles match an input column through INPUT_HEADER_MAPPINGS, the
+ * aliases or the user's saved header mappings. When a core column can't be matched,
+ * every column is returned so the header mapping dialog can offer them all.
+ */
+export function selectMondayColumns(board: MondayBoard, headerMappings: HeaderMappings = {}): MondayColumn[] {
+  const { indices, missingRequired } = matchHeaders(board.columns.map(column => column.title), headerMappings);
+  if (missingRequired.length > 0) return board.columns;
+  const matched = new Set(Object.values(indices));
+  return board.columns.filter((_, index) => matched.has(index));
+}
+
+async function fetchItemsPages(connection: MondayConnection, firstPage: MondayItemsPage | undefined, columnIds: string[]): Promise<MondayItem[]> {
+  const items: MondayItem[] = [];
+  let page = firstPage;
+  while (page) {
+    items.push(...page.items);
+    if (!page.cursor) break;
+    const data = await requestMonday<{ next_items_page: MondayItemsPage }>(connection, NEXT_ITEMS_QUERY, { cursor: page.cursor, columnIds, limit: ITEMS_PAGE_LIMIT });
+    page = data.next_items_page;
+  }
+  return items;
+}
+
+function cellText(item: MondayItem, columnId: string): string {
+  if (columnId === ITEM_NAME_COLUMN_ID) return item.name;
+  const value = item.column_values.find(columnValue => columnValue.id === columnId);
+  return value?.text ?? value?.display_value ?? '';
+}
+
+/**
+ * Loads a board's items, page by page, as rows with the column titles as the header
+ * row, ready for formatDelimitedText and parsePastedData. Only the chosen groups are
+ * read, and the filter keeps items whose display text in the filter column is one of
+ * the filter values.
+ */
+export async function fetchMondayRows(
+  connection: MondayConnection,
+  board: MondayBoard,
+  query: MondayItemQuery,
+  headerMappings: HeaderMappings = {}
+): Promise<string[][]> {
+  const columns = selectMondayColumns(board, headerMappings);
+  const filterValues = new Set(query.filterValues.map(value => value.trim().toLowerCase()).filter(Boolean));
+  const filterColumnId = filterValues.size > 0 ? query.filterColumnId : '';
+  const columnIds = [...new Set([...columns.map(column => column.id), ...(filterColumnId ? [filterColumnId] : [])])]
+    .filter(id => id !== ITEM_NAME_COLUMN_ID);
+
+  const items: MondayItem[] = [];
+  if (query.groupIds.length === 0) {
+    const data = await requestMonday<{ boards: { items_page: MondayItemsPage }[] }>(connection, BOARD_ITEMS_QUERY, { boardId: board.id, columnIds, limit: ITEMS_PAGE_LIMIT });
+    items.push(...await fetchItemsPages(connection, data.boards[0]?.items_page, columnIds));
+  } else {
+    for (const groupId of query.groupIds) {
+      const data = await requestMonday<{ boards: { groups: { items_page: MondayItemsPage }[] }[] }>(connection, GROUP_ITEMS_QUERY, { boardId: board.id, groupId, columnIds, limit: ITEMS_PAGE_LIMIT });
+      items.push(...await fetchItemsPages(connection, data.boards[0]?.groups[0]?.items_page, columnIds));
+    }
+  }
+
+  const kept = filterColumnId ? items.filter(item => filterValues.has(cellText(item, filterColumnId).trim().toLowerCase())) : items;
+  if (kept.length === 0) {
+    throw new Error(items.length === 0 ? `No items found on ${board.name} for the chosen groups.` : `None of the ${items.length} item(s) on ${board.name} match the filter.`);
+  }
+  return [columns.map(column => column.title), ...kept.map(item => columns.map(column => cellText(item, column.id)))];
+}
+
+export function loadMondaySourceSettings(): MondaySourceSettings {
+  try {
+    const stored = localStorage.getItem(SOURCE_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (parsed && typeof parsed.boardId === 'string' && Array.isArray(parsed.groupIds) && Array.isArray(parsed.filterValues)) {
+      return { ...EMPTY_MONDAY_SOURCE, ...parsed };
+    }
+  } catch (e) {
+    console.warn("Ignoring stored Monday.com source:", e);
+  }
+  return EMPTY_MONDAY_SOURCE;
+}
+
+export function saveMondaySourceSettings(settings: MondaySourceSettings): void {
+  localStorage.setItem(SOURCE_STORAGE_KEY, JSON.stringify(settings));
+}
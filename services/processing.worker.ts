@@ -0,0 +1,29 @@
+import { ProcessingJob } from '../types';
+import { ProcessingWorkerMessage, runProcessingJob } from './processingJobs';
+import { MissingHeadersError } from './headerMatching';
+
+// Processing worker entry: runs one job per message. See services/processingWorkerClient.ts.
+const post = (message: ProcessingWorkerMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// Progress is posted at most every PROGRESS_INTERVAL_MS so messages don't queue up behind the work.
+const PROGRESS_INTERVAL_MS = 50;
+
+self.onmessage = async (event: MessageEvent<{ job: ProcessingJob }>) => {
+  let lastProgressAt = 0;
+  try {
+    const result = await runProcessingJob(event.data.job, fraction => {
+      const now = Date.now();
+      if (now - lastProgressAt >= PROGRESS_INTERVAL_MS || fraction === 1) {
+        lastProgressAt = now;
+        post({ type: 'progress', fraction });
+      }
+    });
+    post({ type: 'result', result }, result instanceof Uint8Array ? [result.buffer as ArrayBuffer] : []);
+  } catch (e) {
+    post({
+      type: 'error',
+      message: e instanceof Error ? e.message : String(e),
+      missingHeaders: e instanceof MissingHeadersError ? { missingFields: e.missingFields, headers: e.headers, sampleRow: e.sampleRow } : undefined,
+    });
+  }
+};
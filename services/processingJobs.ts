@@ -0,0 +1,43 @@
+import { ParseJobResult, ProcessingJob, ProcessingJobResult } from '../types';
+import { parsePastedData } from './dataProcessor';
+import { generateExportContent } from './exporters';
+import { MissingHeadersError } from './headerMatching';
+
+function runParseJob(job: Extract<ProcessingJob, { kind: 'parse' }>, onProgress: (fraction: number) => void): ParseJobResult {
+  if (job.markets.length === 0) {
+    throw new Error("Select at least one market to process.");
+  }
+  const rowsByMarket: ParseJobResult['rowsByMarket'] = {};
+  const issuesByMarket: ParseJobResult['issuesByMarket'] = {};
+  let dialect: ParseJobResult['dialect'] | null = null;
+  job.markets.forEach((market, marketPosition) => {
+    const result = parsePastedData(job.text, job.providerRules, market, job.headerMappings, (rowsDone, rowCount) => {
+      onProgress((marketPosition + (rowCount > 0 ? rowsDone / rowCount : 1)) / job.markets.length);
+    });
+    rowsByMarket[market.id] = result.rows;
+    issuesByMarket[market.id] = result.issues;
+    dialect ??= result.dialect;
+  });
+  return { rowsByMarket, issuesByMarket, dialect: dialect! };
+}
+
+/**
+ * Runs a job the way the processing worker does, reporting progress as a fraction from 0
+ * to 1. Parsing reads the input once per market.
+ */
+export async function runProcessingJob<J extends ProcessingJob>(job: J, onProgress: (fraction: number) => void = () => {}): Promise<ProcessingJobResult<J>> {
+  if (job.kind === 'parse') {
+    return runParseJob(job, onProgress) as ProcessingJobResult<J>;
+  }
+  onProgress(0);
+  const content = await generateExportContent(job.rows, job.columns, job.options, job.issues);
+  onProgress(1);
+  return content as ProcessingJobResult<J>;
+}
+
+// What the processing worker posts back. A MissingHeadersError is sent as its fields so
+// the header mapping dialog still opens.
+export type ProcessingWorkerMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'result'; result: ProcessingJobResult<ProcessingJob> }
+  | { type: 'error'; message: string; missingHeaders?: { missingFields: MissingHeadersError['missingFields']; headers: string[]; sampleRow: string[] } };
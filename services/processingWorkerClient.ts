@@ -0,0 +1,63 @@
+import { ProcessingJob, ProcessingJobResult } from '../types';
+import { ProcessingWorkerMessage, runProcessingJob } from './processingJobs';
+import { MissingHeadersError } from './headerMatching';
+
+export interface ProcessingRunOptions {
+  onProgress?: (fraction: number) => void; // 0 to 1
+  signal?: AbortSignal; // Aborting terminates the worker and rejects with ProcessingCancelledError
+}
+
+export class ProcessingCancelledError extends Error {
+  constructor() {
+    super("Processing was cancelled.");
+    this.name = 'ProcessingCancelledError';
+  }
+}
+
+/**
+ * Runs a parse or export job in a fresh Web Worker, so a large paste doesn't freeze the
+ * page. Cancelling terminates the worker, the only way to stop a synchronous parse.
+ * Where workers are unavailable the job runs on the calling thread.
+ */
+export function runJobInWorker<J extends ProcessingJob>(job: J, { onProgress, signal }: ProcessingRunOptions = {}): Promise<ProcessingJobResult<J>> {
+  if (signal?.aborted) {
+    return Promise.reject(new ProcessingCancelledError());
+  }
+  if (typeof Worker === 'undefined') {
+    return runProcessingJob(job, onProgress);
+  }
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./processing.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new ProcessingCancelledError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ProcessingWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      finish();
+      if (message.type === 'result') {
+        resolve(message.result as ProcessingJobResult<J>);
+      } else if (message.missingHeaders) {
+        const { missingFields, headers, sampleRow } = message.missingHeaders;
+        reject(new MissingHeadersError(missingFields, headers, sampleRow));
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "The processing worker stopped unexpectedly."));
+    };
+    worker.postMessage({ job });
+  });
+}
@@ -0,0 +1,213 @@
+import { ProviderRule, ResolvedProvider, LiveLaunchAliasRule } from '../types';
+import { DEFAULT_PROVIDER_RULES, DEFAULT_DESKTOP_GAME_TYPE, DEFAULT_MOBILE_GAME_TYPE } from '../constants';
+import { editDistance } from './textDistance';
+
+const STORAGE_KEY = 'csvCreator.providerRules';
+
+const LIVE_LAUNCH_ALIAS_RULES: LiveLaunchAliasRule[] = ['fromColumn', 'fromGameCode'];
+
+// Comparison key for provider names: accents, case, whitespace and punctuation are
+// ignored, so "ELK-Studios", "elk studios" and "Élk Studios" are the same provider.
+export function normalizeProviderName(name: string): string {
+  return name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+// "Konami via SG" -> "Konami": the aggregator a game is distributed through.
+const stripViaSuffix = (name: string) => name.replace(/\s+via\s+.*$/i, '');
+
+const ruleKeys = (rule: ProviderRule) => [rule.name, ...rule.aliases].map(normalizeProviderName).filter(Boolean);
+
+// A rule whose name or alias matches the pasted name, or failing that the name without
+// its "via X" suffix, so a dedicated "X via Y" rule still wins over the plain "X" one.
+export function findProviderRule(rules: ProviderRule[], providerName: string): ProviderRule | undefined {
+  const findByKey = (key: string) => (key ? rules.find(rule => ruleKeys(rule).includes(key)) : undefined);
+  return findByKey(normalizeProviderName(providerName)) ?? findByKey(normalizeProviderName(stripViaSuffix(providerName)));
+}
+
+/**
+ * The known provider closest to an unmatched name: one whose name or alias starts with
+ * the other ("Pragmatic Play" / "Pragmatic"), or else a near miss by spelling.
+ */
+export function suggestProviderRule(rules: ProviderRule[], providerName: string): ProviderRule | undefined {
+  const key = normalizeProviderName(stripViaSuffix(providerName));
+  if (!key) return undefined;
+  let best: { rule: ProviderRule; score: number } | undefined;
+  for (const rule of rules) {
+    for (const ruleKey of ruleKeys(rule)) {
+      const isPrefix = Math.min(key.length, ruleKey.length) >= 3 && (key.startsWith(ruleKey) || ruleKey.startsWith(key));
+      const score = isPrefix ? 0 : editDistance(key, ruleKey);
+      if (score <= Math.max(1, Math.floor(key.length / 4)) && (!best || score < best.score)) {
+        best = { rule, score };
+      }
+    }
+  }
+  return best?.rule;
+}
+
+// Resolves the output settings for a pasted provider name. Unknown providers keep the
+// pasted name for both display and image folder, with the default game types.
+export function resolveProvider(rules: ProviderRule[], providerName: string, marketId: string): ResolvedProvider {
+  const rule = findProviderRule(rules, providerName);
+  return {
+    displayName: rule?.displayName || providerName,
+    imageFolder: rule?.imageFolders[marketId] || providerName,
+    desktopGameType: rule?.desktopGameType || DEFAULT_DESKTOP_GAME_TYPE,
+    mobileGameType: rule?.mobileGameType || DEFAULT_MOBILE_GAME_TYPE,
+    liveLaunchAliasRule: rule?.liveLaunchAliasRule || 'fromColumn',
+    isKnown: rule !== undefined,
+  };
+}
+
+/**
+ * Registers a pasted provider name: as an alias of an existing rule when mapTo names one,
+ * otherwise as a new provider whose image folder is the pasted name in every market.
+ */
+export function addProviderMapping(rules: ProviderRule[], providerName: string, marketIds: string[], mapTo?: string): ProviderRule[] {
+  const name = providerName.trim();
+  const target = mapTo === undefined ? undefined : rules.find(rule => rule.name === mapTo);
+  if (target) {
+    return rules.map(rule => (rule === target ? { ...rule, aliases: [...rule.aliases, name] } : rule));
+  }
+  return [...rules, {
+    ...createEmptyProviderRule(),
+    name,
+    aliases: [name],
+    imageFolders: Object.fromEntries(marketIds.map(marketId => [marketId, name])),
+  }];
+}
+
+export function createEmptyProviderRule(): ProviderRule {
+  return {
+    name: '',
+    aliases: [],
+    imageFolders: {},
+    desktopGameType: DEFAULT_DESKTOP_GAME_TYPE,
+    mobileGameType: DEFAULT_MOBILE_GAME_TYPE,
+    liveLaunchAliasRule: 'fromColumn',
+  };
+}
+
+function isStringRecord(value: unknown): value is { [key: string]: string } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(v => typeof v === 'string');
+}
+
+// Validates untrusted JSON (local storage or an imported file) into provider rules.
+export function parseProviderRulesJson(json: string): ProviderRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Provider rules file is not valid JSON.");
+  }
+  return parseProviderRules(parsed);
+}
+
+function parseProviderRules(parsed: unknown): ProviderRule[] {
+  if (!Array.isArray(parsed)) {
+    throw new Error("Provider rules must be a JSON array.");
+  }
+  return parsed.map((item, index) => {
+    const position = `Provider rule ${index + 1}`;
+    if (typeof item !== 'object' || item === null) {
+      throw new Error(`${position} must be an object.`);
+    }
+    const { name, aliases, displayName, imageFolders, desktopGameType, mobileGameType, liveLaunchAliasRule } = item as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error(`${position} is missing a name.`);
+    }
+    if (aliases !== undefined && (!Array.isArray(aliases) || !aliases.every(a => typeof a === 'string'))) {
+      throw new Error(`${position} (${name}): aliases must be a list of strings.`);
+    }
+    if (displayName !== undefined && typeof displayName !== 'string') {
+      throw new Error(`${position} (${name}): displayName must be a string.`);
+    }
+    if (imageFolders !== undefined && !isStringRecord(imageFolders)) {
+      throw new Error(`${position} (${name}): imageFolders must map market IDs to folder names.`);
+    }
+    if (liveLaunchAliasRule !== undefined && !LIVE_LAUNCH_ALIAS_RULES.includes(liveLaunchAliasRule as LiveLaunchAliasRule)) {
+      throw new Error(`${position} (${name}): liveLaunchAliasRule must be one of ${LIVE_LAUNCH_ALIAS_RULES.join(', ')}.`);
+    }
+    return {
+      name: name.trim(),
+      aliases: (aliases as string[] | undefined) ?? [name.trim()],
+      displayName: (displayName as string | undefined) || undefined,
+      imageFolders: (imageFolders as { [marketId: string]: string } | undefined) ?? {},
+      desktopGameType: typeof desktopGameType === 'string' && desktopGameType ? desktopGameType : DEFAULT_DESKTOP_GAME_TYPE,
+      mobileGameType: typeof mobileGameType === 'string' && mobileGameType ? mobileGameType : DEFAULT_MOBILE_GAME_TYPE,
+      liveLaunchAliasRule: (liveLaunchAliasRule as LiveLaunchAliasRule | undefined) ?? 'fromColumn',
+    };
+  });
+}
+
+export function serializeProviderRules(rules: ProviderRule[]): string {
+  return JSON.stringify(rules, null, 2);
+}
+
+// The user's changes to the built-in rules: rules added or edited, and the names of
+// built-in rules removed. Storing only these lets providers added or corrected in later
+// releases reach users who changed other rules.
+export interface ProviderRuleChanges {
+  changed: ProviderRule[];
+  removed: string[];
+}
+
+function ruleKey(rule: ProviderRule): string {
+  const { name, aliases, displayName, imageFolders, desktopGameType, mobileGameType, liveLaunchAliasRule } = rule;
+  const folders = Object.entries(imageFolders).sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify([name, aliases, displayName ?? '', folders, desktopGameType, mobileGameType, liveLaunchAliasRule]);
+}
+
+// Rules without a name (a row just added in the editor) can't be matched and are left out.
+export function diffProviderRules(rules: ProviderRule[], defaults: ProviderRule[] = DEFAULT_PROVIDER_RULES): ProviderRuleChanges {
+  const named = rules.filter(rule => rule.name.trim());
+  const defaultKeys = new Set(defaults.map(ruleKey));
+  return {
+    changed: named.filter(rule => !defaultKeys.has(ruleKey(rule))),
+    removed: defaults.filter(rule => !named.some(other => other.name === rule.name)).map(rule => rule.name),
+  };
+}
+
+// The built-in rules in their order, with edited rules in place of the originals and
+// added rules at the end.
+export function applyProviderRuleChanges(changes: ProviderRuleChanges, defaults: ProviderRule[] = DEFAULT_PROVIDER_RULES): ProviderRule[] {
+  const changedByName = new Map(changes.changed.map(rule => [rule.name, rule]));
+  const kept = defaults
+    .filter(rule => !changes.removed.includes(rule.name))
+    .map(rule => changedByName.get(rule.name) ?? rule);
+  return [...kept, ...changes.changed.filter(rule => !defaults.some(other => other.name === rule.name))];
+}
+
+function readStoredProviderRules(parsed: unknown): ProviderRule[] {
+  const { changed, removed } = (parsed ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(removed) || !removed.every(name => typeof name === 'string')) {
+    throw new Error("Stored provider rule changes are malformed.");
+  }
+  return applyProviderRuleChanges({ changed: parseProviderRules(changed), removed });
+}
+
+export function loadProviderRules(): ProviderRule[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return readStoredProviderRules(JSON.parse(stored));
+    }
+  } catch (e) {
+    console.warn("Ignoring stored provider rules:", e);
+  }
+  return DEFAULT_PROVIDER_RULES;
+}
+
+// Nothing is stored while the rules match the built-in ones.
+export function saveProviderRules(rules: ProviderRule[]): void {
+  const changes = diffProviderRules(rules);
+  if (changes.changed.length === 0 && changes.removed.length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(changes));
+  }
+}
+
+export function clearStoredProviderRules(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,38 @@
+import { SavedSession } from '../types';
+
+const STORAGE_KEY = 'csvCreator.session';
+
+export function loadSession(): SavedSession | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (parsed && typeof parsed.rawText === 'string' && parsed.marketRows && typeof parsed.marketRows === 'object') {
+      return {
+        rawText: parsed.rawText,
+        marketRows: parsed.marketRows,
+        activeMarketId: typeof parsed.activeMarketId === 'string' ? parsed.activeMarketId : null,
+        issuesByMarket: parsed.issuesByMarket && typeof parsed.issuesByMarket === 'object' ? parsed.issuesByMarket : {},
+        dialect: parsed.dialect ?? null,
+        edits: parsed.edits && typeof parsed.edits === 'object' ? parsed.edits : {},
+      };
+    }
+  } catch (e) {
+    console.warn("Ignoring stored session:", e);
+  }
+  return null;
+}
+
+// A session too large for local storage is not saved; the previous one is dropped so a
+// reload never restores stale results.
+export function saveSession(session: SavedSession): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (e) {
+    console.warn("Could not save the session:", e);
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export function clearSession(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
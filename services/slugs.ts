@@ -0,0 +1,132 @@
+import { CellEdits, ProcessedGameData, SlugRules, ValidationIssue } from '../types';
+import { DEFAULT_SLUG_RULES, INPUT_HEADER_MAPPINGS } from '../constants';
+
+// Letters that Unicode decomposition leaves alone, spelled the way they are usually
+// written in URLs. Accented letters (é, ñ, å, ...) lose their marks through NFKD instead.
+const TRANSLITERATIONS: Record<string, string> = {
+  'ß': 'ss', 'ẞ': 'SS',
+  'æ': 'ae', 'Æ': 'AE',
+  'œ': 'oe', 'Œ': 'OE',
+  'ø': 'o', 'Ø': 'O',
+  'þ': 'th', 'Þ': 'TH',
+  'ð': 'd', 'Ð': 'D',
+  'đ': 'd', 'Đ': 'D',
+  'ł': 'l', 'Ł': 'L',
+  'ı': 'i',
+  'ħ': 'h', 'Ħ': 'H',
+};
+
+const UMLAUTS: Record<string, string> = { 'ä': 'ae', 'Ä': 'AE', 'ö': 'oe', 'Ö': 'OE', 'ü': 'ue', 'Ü': 'UE' };
+
+// Trademark style symbols go before decomposition, which would spell "™" as "TM".
+const TRADEMARK_SYMBOLS = /[™®©℠]/g;
+
+// Underscores were always kept, so existing catalog slugs may contain them.
+const SLUG_PATTERN = /^[a-z0-9_]+(?:-[a-z0-9_]+)*$/;
+
+function transliterate(text: string, expandUmlauts: boolean): string {
+  let result = '';
+  for (const char of text) {
+    result += (expandUmlauts ? UMLAUTS[char] : undefined) ?? TRANSLITERATIONS[char] ?? char;
+  }
+  return result.normalize('NFKD').replace(/\p{M}/gu, '');
+}
+
+// Cuts at the last hyphen that fits, or mid-word when the first word alone is too long.
+function truncateSlug(slug: string, maxLength: number): string {
+  if (maxLength <= 0 || slug.length <= maxLength) return slug;
+  const cut = slug.slice(0, maxLength + 1);
+  const boundary = cut.lastIndexOf('-');
+  return (boundary > 0 ? cut.slice(0, boundary) : slug.slice(0, maxLength)).replace(/-+$/, '');
+}
+
+/**
+ * URL slug for a game name: accents and special letters are transliterated to ASCII,
+ * "&" becomes the rules' ampersand word and other punctuation is removed without
+ * splitting words ("10,000" → "10000", "Björn's" → "bjorns"), so existing slugs keep
+ * their URLs. Whitespace and hyphens separate the lowercase words, which are joined by
+ * single hyphens. Stop words are left out and long slugs cut at a word boundary.
+ */
+export function generateSeoFriendlyName(name: string, rules: SlugRules = DEFAULT_SLUG_RULES): string {
+  if (!name) return '';
+  const words = transliterate(name.replace(TRADEMARK_SYMBOLS, '').replace(/&/g, rules.ampersandWord.trim()), rules.expandUmlauts)
+    .toLowerCase()
+    .replace(/[^a-z0-9_\s-]/g, '')
+    .split(/[\s-]+/)
+    .filter(Boolean);
+  const stopWords = new Set(rules.stopWords.map(word => word.trim().toLowerCase()).filter(Boolean));
+  const kept = words.filter(word => !stopWords.has(word));
+  return truncateSlug((kept.length > 0 ? kept : words).join('-'), rules.maxLength);
+}
+
+/**
+ * What is wrong with a supplied slug under the rules, or null when it is fine. The same
+ * rules generate slugs, so generateSeoFriendlyName(slug, rules) is the suggested fix.
+ */
+export function findSlugProblem(slug: string, rules: SlugRules = DEFAULT_SLUG_RULES): string | null {
+  if (!SLUG_PATTERN.test(slug)) {
+    if (/[A-Z]/.test(slug) && SLUG_PATTERN.test(slug.toLowerCase())) return "has uppercase letters";
+    if (/[^\x00-\x7F]/.test(slug)) return "has accented or non-ASCII characters";
+    if (/\s/.test(slug)) return "has spaces";
+    if (/^-|-$|--/.test(slug)) return "has leading, trailing or repeated hyphens";
+    return "has characters other than lowercase letters, digits, underscores and hyphens";
+  }
+  if (rules.maxLength > 0 && slug.length > rules.maxLength) {
+    return `is longer than ${rules.maxLength} characters`;
+  }
+  const stopWords = new Set(rules.stopWords.map(word => word.trim().toLowerCase()).filter(Boolean));
+  const segments = slug.split('-');
+  const found = segments.filter(segment => stopWords.has(segment));
+  if (found.length > 0 && found.length < segments.length) {
+    return `contains the stop word(s) ${[...new Set(found)].map(word => `"${word}"`).join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Warning about a supplied or edited slug that breaks the rules, with the slug
+ * regenerated under the rules as the suggested value; null when the slug is fine.
+ */
+export function slugIssue(slug: string, rules: SlugRules, line: number, rowIndex: number): ValidationIssue | null {
+  const problem = findSlugProblem(slug, rules);
+  if (!problem) return null;
+  const suggestedValue = generateSeoFriendlyName(slug, rules);
+  return {
+    line,
+    rowIndex,
+    column: INPUT_HEADER_MAPPINGS.SEO_FRIENDLY_GAME_NAME,
+    field: 'seoFriendlyGameName',
+    severity: 'warning',
+    skipped: false,
+    message: `Slug "${slug}" ${problem}.${suggestedValue ? ` Suggested: "${suggestedValue}".` : ''}`,
+    ...(suggestedValue ? { suggestedValue } : {}),
+  };
+}
+
+// Parsing checks supplied slugs; slugs typed in or suffixed afterwards are checked here.
+export function findEditedSlugIssues(rows: ProcessedGameData[], edits: CellEdits, rules: SlugRules): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const [index, rowEdits] of Object.entries(edits)) {
+    const rowIndex = Number(index);
+    const row = rows[rowIndex];
+    if (!row || !('seoFriendlyGameName' in rowEdits) || !row.seoFriendlyGameName) continue;
+    const issue = slugIssue(row.seoFriendlyGameName, rules, row.sourceLine ?? rowIndex + 2, rowIndex);
+    if (issue) issues.push(issue);
+  }
+  return issues;
+}
+
+/**
+ * The first of "<slug>-2", "<slug>-3", ... that is not in taken (lowercase slugs). The
+ * slug is cut at a word boundary where needed so the suffixed slug fits maxLength, and a
+ * slug that breaks the rules is regenerated under them first.
+ */
+export function suffixSlug(slug: string, taken: ReadonlySet<string>, rules: SlugRules = DEFAULT_SLUG_RULES): string {
+  const base = (findSlugProblem(slug, rules) ? generateSeoFriendlyName(slug, rules) : slug) || slug;
+  for (let suffix = 2; ; suffix++) {
+    const ending = `-${suffix}`;
+    const room = rules.maxLength > 0 ? Math.max(1, rules.maxLength - ending.length) : 0;
+    const candidate = `${truncateSlug(base, room)}${ending}`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
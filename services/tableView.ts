@@ -0,0 +1,117 @@
+import { OutputColumnKey, ProcessedGameData, RenderWindow, TableColumnLayout, TableViewState } from '../types';
+import { OUTPUT_CSV_COLUMNS } from '../constants';
+import { formatCellValue } from './dataProcessor';
+
+const COLUMN_LAYOUT_STORAGE_KEY = 'csvCreator.tableColumns';
+
+export const EMPTY_TABLE_VIEW: TableViewState = { search: '', filters: {}, sort: null };
+
+export const DEFAULT_TABLE_COLUMN_LAYOUT: TableColumnLayout = { hidden: [], pinned: ['gameCode', 'name'] };
+
+function matchesFilter(row: ProcessedGameData, column: OutputColumnKey, filter: string): boolean {
+  const value = row[column];
+  if (typeof value === 'boolean') {
+    return String(value) === filter;
+  }
+  return formatCellValue(value).toLowerCase().includes(filter.toLowerCase());
+}
+
+// Booleans sort false before true; text sorts naturally ("game2" before "game10") with
+// blanks last in either direction.
+function compareValues(a: ProcessedGameData[OutputColumnKey], b: ProcessedGameData[OutputColumnKey]): number {
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  return formatCellValue(a).localeCompare(formatCellValue(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+const isBlank = (value: ProcessedGameData[OutputColumnKey]) => formatCellValue(value) === '';
+
+/**
+ * Indexes of the rows that pass the search and column filters, in display order. Indexes
+ * point into rows, so edits, issues and diffs keep working on the filtered view. The
+ * search only looks at the given (visible) columns; ties keep their original order.
+ */
+export function selectVisibleRows(rows: ProcessedGameData[], columns: OutputColumnKey[], view: TableViewState): number[] {
+  const search = view.search.trim().toLowerCase();
+  const filters = (Object.entries(view.filters) as [OutputColumnKey, string][]).filter(([, filter]) => filter !== '');
+  const indexes = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) =>
+      filters.every(([column, filter]) => matchesFilter(row, column, filter)) &&
+      (!search || columns.some(column => formatCellValue(row[column]).toLowerCase().includes(search)))
+    );
+
+  const { sort } = view;
+  if (sort) {
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    indexes.sort((a, b) => {
+      const aValue = a.row[sort.column];
+      const bValue = b.row[sort.column];
+      if (isBlank(aValue) !== isBlank(bValue)) return isBlank(aValue) ? 1 : -1;
+      return compareValues(aValue, bValue) * direction || a.index - b.index;
+    });
+  }
+  return indexes.map(({ index }) => index);
+}
+
+// Clicking a header sorts ascending, then descending, then restores the original order.
+export function nextSort(sort: TableViewState['sort'], column: OutputColumnKey): TableViewState['sort'] {
+  if (sort?.column !== column) return { column, direction: 'asc' };
+  return sort.direction === 'asc' ? { column, direction: 'desc' } : null;
+}
+
+// Pinned columns first, in the order they were pinned, then the rest; hidden ones are left out.
+export function arrangeColumns(columns: OutputColumnKey[], layout: TableColumnLayout): OutputColumnKey[] {
+  const visible = columns.filter(column => !layout.hidden.includes(column));
+  const pinned = layout.pinned.filter(column => visible.includes(column));
+  return [...pinned, ...visible.filter(column => !pinned.includes(column))];
+}
+
+/**
+ * Rows of a fixed height that overlap the viewport, plus overscan rows on each side, so
+ * only those are rendered.
+ */
+export function rowWindow(count: number, rowHeight: number, scrollTop: number, viewportHeight: number, overscan = 5): RenderWindow {
+  const first = Math.min(count, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  const start = Math.min(first, end);
+  return { start, end, before: start * rowHeight, after: (count - end) * rowHeight };
+}
+
+// The same for columns of the given widths, scrolled horizontally.
+export function columnWindow(widths: number[], scrollLeft: number, viewportWidth: number, overscan = 2): RenderWindow {
+  let left = 0;
+  let first = widths.length;
+  let last = widths.length;
+  for (let i = 0; i < widths.length; i++) {
+    if (first === widths.length && left + widths[i] > scrollLeft) first = i;
+    if (left >= scrollLeft + viewportWidth) {
+      last = i;
+      break;
+    }
+    left += widths[i];
+  }
+  const start = Math.max(0, first - overscan);
+  const end = Math.max(start, Math.min(widths.length, last + overscan));
+  const sum = (from: number, to: number) => widths.slice(from, to).reduce((total, width) => total + width, 0);
+  return { start, end, before: sum(0, start), after: sum(end, widths.length) };
+}
+
+export function loadTableColumnLayout(): TableColumnLayout {
+  try {
+    const stored = localStorage.getItem(COLUMN_LAYOUT_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (parsed && Array.isArray(parsed.hidden) && Array.isArray(parsed.pinned)) {
+      const known = (list: unknown[]) => list.filter((column): column is OutputColumnKey => OUTPUT_CSV_COLUMNS.includes(column as OutputColumnKey));
+      return { hidden: known(parsed.hidden), pinned: known(parsed.pinned) };
+    }
+  } catch (e) {
+    console.warn("Ignoring stored table column layout:", e);
+  }
+  return DEFAULT_TABLE_COLUMN_LAYOUT;
+}
+
+export function saveTableColumnLayout(layout: TableColumnLayout): void {
+  localStorage.setItem(COLUMN_LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+}
@@ -0,0 +1,127 @@
+import { readZipDirectory, readZipEntry, ZipEntry } from './zipArchive';
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: string[][];
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// Resolves XML entities and Excel's _xHHHH_ escapes for control characters.
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        return String.fromCodePoint(name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+      }
+      return XML_ENTITIES[name] ?? entity;
+    })
+    .replace(/_x([0-9a-f]{4})_/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)));
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of tag.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[name] = decodeXmlText(value);
+  }
+  return attributes;
+}
+
+// The text of every <t> element, which covers plain and rich-text strings. Phonetic
+// hints (<rPh>) are not part of the displayed value.
+function readTextRuns(xml: string): string {
+  return [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)]
+    .map(match => decodeXmlText(match[1]))
+    .join('');
+}
+
+// "C12" -> 2
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function readCellValue(attributes: Record<string, string>, content: string, sharedStrings: string[]): string {
+  const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+  switch (attributes.t) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'inlineStr':
+      return readTextRuns(content);
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    default:
+      return value === undefined ? '' : decodeXmlText(value);
+  }
+}
+
+/**
+ * Cell values as stored in the sheet, one array per row. Rows missing from the sheet
+ * become empty rows so row numbers stay as in Excel. Numbers are not formatted, so
+ * dates come through as Excel serial numbers.
+ */
+function readSheetRows(xml: string, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+  for (const [, rowTag, rowContent = ''] of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(readAttributes(rowTag).r) || rows.length + 1;
+    while (rows.length < rowNumber - 1) {
+      rows.push([]);
+    }
+    const cells: string[] = [];
+    for (const [, cellTag, cellContent = ''] of rowContent.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = readAttributes(cellTag);
+      const index = attributes.r ? columnIndex(attributes.r) : cells.length;
+      while (cells.length < index) {
+        cells.push('');
+      }
+      cells[index] = readCellValue(attributes, cellContent, sharedStrings);
+    }
+    rows.push(cells);
+  }
+  // Trailing empty cells are usually formatting only.
+  return rows.map(cells => {
+    let end = cells.length;
+    while (end > 0 && cells[end - 1] === '') end--;
+    return cells.slice(0, end);
+  });
+}
+
+/**
+ * Reads every worksheet of an .xlsx workbook in sheet order. Only cell values are read;
+ * formulas come through as their last calculated value.
+ */
+export async function readXlsxSheets(buffer: ArrayBuffer): Promise<SpreadsheetSheet[]> {
+  const entries = new Map<string, ZipEntry>(readZipDirectory(buffer).map(entry => [entry.name, entry]));
+  const readText = async (path: string): Promise<string | null> => {
+    const entry = entries.get(path);
+    return entry ? new TextDecoder().decode(await readZipEntry(buffer, entry)) : null;
+  };
+
+  const workbook = await readText('xl/workbook.xml');
+  if (workbook === null) {
+    throw new Error("Not an Excel workbook (xl/workbook.xml is missing).");
+  }
+  const relationships = new Map<string, string>();
+  for (const [tag] of ((await readText('xl/_rels/workbook.xml.rels')) ?? '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const { Id, Target, Type } = readAttributes(tag);
+    if (Id && Target && Type?.endsWith('/worksheet')) {
+      relationships.set(Id, Target.startsWith('/') ? Target.slice(1) : `xl/${Target}`);
+    }
+  }
+  const sharedStringsXml = (await readText('xl/sharedStrings.xml')) ?? '';
+  const sharedStrings = [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(match => readTextRuns(match[1]));
+
+  const sheets: SpreadsheetSheet[] = [];
+  for (const [tag] of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const attributes = readAttributes(tag);
+    const path = relationships.get(attributes['r:id']);
+    const xml = path ? await readText(path) : null;
+    if (xml !== null) { // Chart sheets have no worksheet relationship and are skipped
+      sheets.push({ name: attributes.name ?? `Sheet ${sheets.length + 1}`, rows: readSheetRows(xml, sharedStrings) });
+    }
+  }
+  if (sheets.length === 0) {
+    throw new Error("The workbook has no worksheets.");
+  }
+  return sheets;
+}
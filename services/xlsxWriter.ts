@@ -0,0 +1,73 @@
+import { createZipArchive } from './zipArchive';
+
+export type SpreadsheetCell = string | number | boolean | null | undefined;
+
+export interface SpreadsheetSheetData {
+  name: string;
+  rows: SpreadsheetCell[][]; // First row is the header
+  freezeHeader?: boolean;
+}
+
+const CONTENT_TYPES_SPREADSHEET = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+const RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Escapes markup characters. Control characters XML can't carry, carriage returns (which
+// XML parsers would drop) and literal _xHHHH_ text are written as _xHHHH_ like Excel does.
+function escapeXml(text: string): string {
+  return text
+    .replace(/_x[0-9a-f]{4}_/gi, match => `_x005F${match.slice(1)}`)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\x00-\x08\x0b-\x1f]/g, char => `_x${char.charCodeAt(0).toString(16).padStart(4, '0').toUpperCase()}_`);
+}
+
+// 0 -> "A", 27 -> "AB"
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(value: SpreadsheetCell, reference: string, style: string): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'boolean') return `<c r="${reference}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+  if (typeof value === 'number') return `<c r="${reference}"${style}><v>${value}</v></c>`;
+  return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(sheet: SpreadsheetSheetData): string {
+  const rows = sheet.rows.map((cells, rowIndex) => {
+    const style = rowIndex === 0 ? ' s="1"' : ''; // Bold header
+    const cellsXml = cells.map((value, columnIndex) => cellXml(value, `${columnName(columnIndex)}${rowIndex + 1}`, style)).join('');
+    return `<row r="${rowIndex + 1}">${cellsXml}</row>`;
+  });
+  const frozenPane = sheet.freezeHeader
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '';
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${frozenPane}<sheetData>${rows.join('')}</sheetData></worksheet>`;
+}
+
+/**
+ * Writes an .xlsx workbook with one worksheet per entry. Strings are stored inline and
+ * booleans and numbers keep their type, so Excel filters TRUE/FALSE columns as booleans.
+ * Sheet names must be unique, at most 31 characters and free of []:*?/\.
+ */
+export function writeXlsxWorkbook(sheets: SpreadsheetSheetData[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const sheetEntries = sheets.map((sheet, index) => ({ sheet, id: `rId${index + 1}`, path: `worksheets/sheet${index + 1}.xml` }));
+  const files: Record<string, string> = {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="${CONTENT_TYPES_SPREADSHEET}.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="${CONTENT_TYPES_SPREADSHEET}.styles+xml"/>${sheetEntries.map(({ path }) => `<Override PartName="/xl/${path}" ContentType="${CONTENT_TYPES_SPREADSHEET}.worksheet+xml"/>`).join('')}</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${RELATIONSHIPS_NAMESPACE}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${RELATIONSHIPS_NAMESPACE}"><sheets>${sheetEntries.map(({ sheet, id }, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="${id}"/>`).join('')}</sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheetEntries.map(({ id, path }) => `<Relationship Id="${id}" Type="${RELATIONSHIPS_NAMESPACE}/worksheet" Target="${path}"/>`).join('')}<Relationship Id="rId${sheets.length + 1}" Type="${RELATIONSHIPS_NAMESPACE}/styles" Target="styles.xml"/></Relationships>`,
+    'xl/styles.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`,
+  };
+  sheetEntries.forEach(({ sheet, path }) => {
+    files[`xl/${path}`] = sheetXml(sheet);
+  });
+  return createZipArchive(Object.entries(files).map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+}
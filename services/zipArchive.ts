@@ -0,0 +1,154 @@
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflated
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Entries listed in a zip's central directory.
+// ZIP64 archives (over 65535 entries or 4 GB) are not supported.
+export function readZipDirectory(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+  let eocd = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("Not a zip file (no end of central directory record).");
+  }
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.byteLength || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error("The zip central directory is damaged.");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(new Uint8Array(buffer, offset + 46, nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// File names from a zip's central directory; contents are never decompressed.
+export function readZipEntryNames(buffer: ArrayBuffer): string[] {
+  return readZipDirectory(buffer).map(entry => entry.name);
+}
+
+// Decompresses one entry with the platform's DecompressionStream (browsers and Node 18+).
+export async function readZipEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<Uint8Array> {
+  const view = new DataView(buffer);
+  const offset = entry.localHeaderOffset;
+  if (offset + 30 > buffer.byteLength || view.getUint32(offset, true) !== 0x04034b50) {
+    throw new Error(`The zip entry ${entry.name} is damaged.`);
+  }
+  const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+  const data = new Uint8Array(buffer, dataStart, entry.compressedSize);
+  if (entry.method === 0) {
+    return data;
+  }
+  if (entry.method !== 8) {
+    throw new Error(`The zip entry ${entry.name} uses an unsupported compression method (${entry.method}).`);
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Builds a zip archive with every file deflated. Entries carry no timestamps (they read
+ * as 1980-01-01), so the same files always produce the same bytes.
+ */
+export async function createZipArchive(files: { name: string; data: Uint8Array }[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const compressed = await deflateRaw(file.data);
+    const crc = crc32(file.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // Version needed: 2.0 (deflate)
+    localView.setUint16(6, 0x0800, true); // Names are UTF-8
+    localView.setUint16(8, 8, true);
+    localView.setUint16(12, 0x21, true); // 1980-01-01
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, compressed.length, true);
+    localView.setUint32(22, file.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 8, true);
+    centralView.setUint16(14, 0x21, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, compressed.length, true);
+    centralView.setUint32(24, file.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, compressed);
+    centralParts.push(central);
+    offset += local.length + compressed.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of parts) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
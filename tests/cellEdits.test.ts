@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { ProcessedGameData } from '../types';
+import {
+  EMPTY_EDIT_HISTORY,
+  applyCellEdits,
+  countCellEdits,
+  pushEdits,
+  redoEdits,
+  remapCellEdits,
+  resetCellEdit,
+  resetMarketCellEdit,
+  setCellEdit,
+  setMarketCellEdit,
+  undoEdits,
+} from '../services/cellEdits';
+
+const game = (fields: Partial<ProcessedGameData>) => ({ gameCode: 'g-1', name: 'Gold', ...fields }) as ProcessedGameData;
+
+describe('setCellEdit', () => {
+  const derived = game({ seoFriendlyGameName: 'gold' });
+
+  it('stores edits on top of the derived rows', () => {
+    const edits = setCellEdit(setCellEdit({}, derived, 0, 'name', 'Golden'), derived, 0, 'isActive', false);
+    expect(edits).toEqual({ 0: { name: 'Golden', isActive: false } });
+    expect(applyCellEdits([derived], edits)).toEqual([{ ...derived, name: 'Golden', isActive: false }]);
+    expect(countCellEdits(edits)).toBe(2);
+  });
+
+  it('drops an edit set back to the derived value', () => {
+    const edits = setCellEdit({}, derived, 0, 'name', 'Golden');
+    expect(setCellEdit(edits, derived, 0, 'name', 'Gold')).toEqual({});
+    expect(setCellEdit({}, derived, 0, 'articleId', '')).toEqual({});
+  });
+
+  it('resets one cell and re-keys edits after rows were removed', () => {
+    const edits = { 0: { name: 'A' }, 2: { name: 'C', articleId: 'x' } };
+    expect(resetCellEdit(edits, 2, 'articleId')).toEqual({ 0: { name: 'A' }, 2: { name: 'C' } });
+    expect(resetCellEdit(edits, 0, 'name')).toEqual({ 2: edits[2] });
+    expect(remapCellEdits(edits, [2])).toEqual({ 0: edits[2] });
+  });
+});
+
+describe('edit history', () => {
+  const step = (name: string) => ({ CA: { 0: { name } } });
+
+  it('undoes and redoes, and a new edit clears the redo steps', () => {
+    let history = pushEdits(pushEdits(EMPTY_EDIT_HISTORY, step('A')), step('B'));
+    history = undoEdits(history);
+    expect(history.present).toEqual(step('A'));
+    history = redoEdits(history);
+    expect(history.present).toEqual(step('B'));
+    history = pushEdits(undoEdits(history), step('C'));
+    expect(history).toEqual({ past: [{}, step('A')], present: step('C'), future: [] });
+    expect(redoEdits(history)).toBe(history);
+    expect(undoEdits(EMPTY_EDIT_HISTORY)).toBe(EMPTY_EDIT_HISTORY);
+  });
+
+  it('keeps the last 100 steps', () => {
+    let history = EMPTY_EDIT_HISTORY;
+    for (let i = 0; i < 105; i++) {
+      history = pushEdits(history, step(`name ${i}`));
+    }
+    expect(history.past).toHaveLength(100);
+    expect(history.past[0]).toEqual(step('name 4'));
+  });
+
+  it('ignores an edit that changes nothing', () => {
+    const history = pushEdits(EMPTY_EDIT_HISTORY, step('A'));
+    expect(pushEdits(history, history.present)).toBe(history);
+  });
+});
+
+describe('setMarketCellEdit', () => {
+  const marketRows = {
+    CA: [game({ seoFriendlyGameName: 'gold', defaultGameImage: '/library/ca/g-1.webp' })],
+    COM: [game({ seoFriendlyGameName: 'gold', defaultGameImage: '/library/com/g-1.webp' })],
+  };
+
+  it('edits every market that derives the same value', () => {
+    const edits = setMarketCellEdit({}, marketRows, 'CA', 0, 'name', 'Golden');
+    expect(edits).toEqual({ CA: { 0: { name: 'Golden' } }, COM: { 0: { name: 'Golden' } } });
+    expect(resetMarketCellEdit(edits, marketRows, 'COM', 0, 'name')).toEqual({ CA: {}, COM: {} });
+  });
+
+  it('keeps market-specific values to the active market', () => {
+    const edits = setMarketCellEdit({}, marketRows, 'COM', 0, 'defaultGameImage', '/library/com/other.webp');
+    expect(edits).toEqual({ COM: { 0: { defaultGameImage: '/library/com/other.webp' } } });
+  });
+
+  it('returns the same edits when nothing changes', () => {
+    const edits = {};
+    expect(setMarketCellEdit(edits, marketRows, 'CA', 0, 'name', 'Gold')).toBe(edits);
+  });
+});
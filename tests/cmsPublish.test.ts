@@ -0,0 +1,128 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { CmsPublishSettings, OutputColumnKey, ProcessedGameData } from '../types';
+import { CmsAuthError, DEFAULT_CMS_PUBLISH_SETTINGS, canRetryFailedRows, mergeCmsResults, publishToCms } from '../services/cmsPublish';
+import { startCmsStubServer } from '../scripts/cms-stub-server.mjs';
+
+const AUTH = 'Bearer test-token';
+const COLUMNS: OutputColumnKey[] = ['gameCode', 'name', 'isActive'];
+
+const game = (gameCode: string, name = `Game ${gameCode}`) => ({ gameCode, name, isActive: true }) as ProcessedGameData;
+
+const noWait = async () => {};
+
+let stub: Awaited<ReturnType<typeof startCmsStubServer>> | undefined;
+
+const startStub = async (options: { failFirst?: number } = {}) => {
+  stub = await startCmsStubServer({ auth: AUTH, ...options });
+  const settings: CmsPublishSettings = { ...DEFAULT_CMS_PUBLISH_SETTINGS, endpoint: stub.url, chunkSize: 2 };
+  return { stub, settings };
+};
+
+afterEach(async () => {
+  await stub?.close();
+  stub = undefined;
+});
+
+describe('publishToCms', () => {
+  it('posts CSV chunks with the auth header and reports each row', async () => {
+    const { stub, settings } = await startStub();
+    const progress: number[][] = [];
+    const results = await publishToCms([game('a-1'), game('a-2'), game('a-3', ''), game('a-1')], COLUMNS, settings, {
+      dryRun: false,
+      authValue: AUTH,
+      onProgress: (done, count) => progress.push([done, count]),
+    });
+
+    expect(results).toEqual([
+      { rowIndex: 0, gameCode: 'a-1', status: 'accepted' },
+      { rowIndex: 1, gameCode: 'a-2', status: 'accepted' },
+      { rowIndex: 2, gameCode: 'a-3', status: 'rejected', message: 'name is required.' },
+      { rowIndex: 3, gameCode: 'a-1', status: 'rejected', message: 'a-1 already exists in the CMS.' },
+    ]);
+    expect(progress).toEqual([[1, 2], [2, 2]]);
+    expect(stub.requests[0].headers['content-type']).toBe('text/csv');
+    expect(stub.requests[0].body).toBe('gameCode,name,isActive\na-1,Game a-1,true\na-2,Game a-2,true');
+  });
+
+  it('sends JSON and leaves the CMS untouched on a dry run', async () => {
+    const { stub, settings } = await startStub();
+    const results = await publishToCms([game('b-1')], COLUMNS, { ...settings, format: 'json' }, { dryRun: true, authValue: AUTH });
+
+    expect(results.map(result => result.status)).toEqual(['accepted']);
+    expect(stub.requests[0].dryRun).toBe(true);
+    expect(JSON.parse(stub.requests[0].body)).toEqual([{ gameCode: 'b-1', name: 'Game b-1', isActive: true }]);
+    expect(stub.imported.size).toBe(0);
+  });
+
+  it('retries a chunk after 5xx responses, waiting longer each time', async () => {
+    const { stub, settings } = await startStub({ failFirst: 2 });
+    const waits: number[] = [];
+    const results = await publishToCms([game('c-1')], COLUMNS, settings, { dryRun: false, authValue: AUTH, wait: async ms => { waits.push(ms); } });
+
+    expect(results.map(result => result.status)).toEqual(['accepted']);
+    expect(stub.requests).toHaveLength(3);
+    expect(waits).toEqual([1000, 2000]);
+  });
+
+  it('marks a chunk failed once the retries run out and publishes the rest', async () => {
+    const { settings } = await startStub({ failFirst: 2 });
+    const results = await publishToCms([game('d-1'), game('d-2'), game('d-3')], COLUMNS, { ...settings, maxRetries: 1 }, { dryRun: false, authValue: AUTH, wait: noWait });
+
+    expect(results.map(result => [result.gameCode, result.status])).toEqual([['d-1', 'failed'], ['d-2', 'failed'], ['d-3', 'accepted']]);
+    expect(results[0].message).toBe('HTTP 503: Import queue is busy.');
+  });
+
+  it('stops on refused credentials', async () => {
+    const { stub, settings } = await startStub();
+    await expect(publishToCms([game('e-1'), game('e-2'), game('e-3')], COLUMNS, settings, { dryRun: false, authValue: 'Bearer wrong', wait: noWait }))
+      .rejects.toThrow(CmsAuthError);
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('reports unreachable endpoints as failed rows', async () => {
+    const { stub, settings } = await startStub();
+    await stub.close();
+    const results = await publishToCms([game('f-1')], COLUMNS, { ...settings, maxRetries: 0 }, { dryRun: false, authValue: AUTH });
+    expect(results[0]).toMatchObject({ status: 'failed', message: expect.stringContaining('Could not reach the CMS') });
+  });
+
+  it('requires an http(s) endpoint', async () => {
+    await expect(publishToCms([game('g-1')], COLUMNS, { ...DEFAULT_CMS_PUBLISH_SETTINGS, endpoint: 'cms.example.com/import' }, { dryRun: true, authValue: AUTH }))
+      .rejects.toThrow('http(s) URL');
+  });
+});
+
+describe('mergeCmsResults', () => {
+  it('replaces the results of retried rows by their original index', () => {
+    const previous = [
+      { rowIndex: 0, gameCode: 'a', status: 'accepted' as const },
+      { rowIndex: 1, gameCode: 'b', status: 'failed' as const, message: 'HTTP 503' },
+      { rowIndex: 2, gameCode: 'c', status: 'failed' as const, message: 'HTTP 503' },
+    ];
+    const retried = [
+      { rowIndex: 0, gameCode: 'b', status: 'accepted' as const },
+      { rowIndex: 1, gameCode: 'c', status: 'rejected' as const, message: 'c already exists in the CMS.' },
+    ];
+    expect(mergeCmsResults(previous, [1, 2], retried)).toEqual([
+      previous[0],
+      { rowIndex: 1, gameCode: 'b', status: 'accepted' },
+      { rowIndex: 2, gameCode: 'c', status: 'rejected', message: 'c already exists in the CMS.' },
+    ]);
+  });
+});
+
+describe('canRetryFailedRows', () => {
+  const results = [
+    { rowIndex: 0, gameCode: 'a', status: 'accepted' as const },
+    { rowIndex: 1, gameCode: 'b', status: 'failed' as const, message: 'HTTP 503' },
+  ];
+
+  it('allows a retry while the failed rows still hold the same games', () => {
+    expect(canRetryFailedRows(results, [game('a'), game('b', 'Edited name')])).toBe(true);
+  });
+
+  it('refuses a retry after re-processing moved the games, even with the same row count', () => {
+    expect(canRetryFailedRows(results, [game('b'), game('a')])).toBe(false);
+    expect(canRetryFailedRows(results, [game('a')])).toBe(false);
+  });
+});
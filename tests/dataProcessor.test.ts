@@ -0,0 +1,121 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { MarketProfile, ProcessedGameData } from '../types';
+import { BOOLEAN_OUTPUT_FIELDS, DEFAULT_FLAG_VALUES, DEFAULT_MARKET_PROFILES, DEFAULT_PROVIDER_RULES, DEFAULT_CSV_OUTPUT_OPTIONS, OUTPUT_CSV_COLUMNS } from '../constants';
+import { parsePastedData, parseBooleanString, generateCsvContent } from '../services/dataProcessor';
+
+// Golden files live in tests/fixtures. After an intended output change, regenerate
+// the *.expected.csv files with `npm test -- -u` and review the diff.
+const GOLDEN_INPUT = readFileSync(new URL('./fixtures/games.tsv', import.meta.url), 'utf8');
+
+const market = (id: string): MarketProfile => DEFAULT_MARKET_PROFILES.find(m => m.id === id)!;
+
+const parseRow = (cells: Record<string, string>, marketId = 'CA'): ProcessedGameData => {
+  const row = { 'IMS Game Code': 'code-1', 'Name': 'Test Game', 'Game Provider': 'AGS', ...cells };
+  const text = `${Object.keys(row).join('\t')}\n${Object.values(row).join('\t')}`;
+  return parsePastedData(text, DEFAULT_PROVIDER_RULES, market(marketId)).rows[0];
+};
+
+describe('parseBooleanString', () => {
+  it.each([
+    ['true', true], ['TRUE', true], [' 1 ', true],
+    ['false', false], ['False', false], ['0', false],
+  ])('parses %j', (value, expected) => {
+    expect(parseBooleanString(value, !expected)).toBe(expected);
+  });
+
+  it.each([undefined, '', 'yes', 'n/a'])('falls back to the default for %j', (value) => {
+    expect(parseBooleanString(value, true)).toBe(true);
+    expect(parseBooleanString(value)).toBe(false);
+  });
+});
+
+describe('defaultGameImage', () => {
+  it('keeps http and https URLs as they are', () => {
+    expect(parseRow({ defaultUserImage: 'http://cdn.example.com/a.png' }).defaultGameImage).toBe('http://cdn.example.com/a.png');
+    expect(parseRow({ defaultUserImage: 'https://cdn.example.com/a.png' }).defaultGameImage).toBe('https://cdn.example.com/a.png');
+  });
+
+  it('prefixes relative and root-relative paths with /library/', () => {
+    expect(parseRow({ defaultUserImage: 'Game Icons/AGS/a.webp' }).defaultGameImage).toBe('/library/Game Icons/AGS/a.webp');
+    expect(parseRow({ defaultUserImage: '/Game Icons/AGS/a.webp' }).defaultGameImage).toBe('/library/Game Icons/AGS/a.webp');
+  });
+
+  it('does not repeat an existing library/ prefix', () => {
+    expect(parseRow({ defaultUserImage: 'library/AGS/a.webp' }).defaultGameImage).toBe('/library/AGS/a.webp');
+    expect(parseRow({ defaultUserImage: '/Library/AGS/a.webp' }).defaultGameImage).toBe('/Library/AGS/a.webp');
+  });
+
+  it('builds the path from the market provider folder when the column is blank', () => {
+    const row = { 'Game Provider': 'Games Global' };
+    expect(parseRow(row, 'CA').defaultGameImage).toBe('/library/Game%20Icons/games-global/code-1.webp');
+    expect(parseRow(row, 'COM').defaultGameImage).toBe('/library/Game%20Icons/Games%20Global/code-1.webp');
+  });
+
+  it('falls back to the pasted provider name for unknown providers', () => {
+    expect(parseRow({ 'Game Provider': 'New & Co' }).defaultGameImage).toBe('/library/Game%20Icons/New%20%26%20Co/code-1.webp');
+  });
+});
+
+describe('parsePastedData', () => {
+  it('rejects input without the core headers', () => {
+    expect(() => parsePastedData('Name\tGame Provider\nA\tAGS', DEFAULT_PROVIDER_RULES, market('CA'))).toThrow(/IMS Game Code/);
+  });
+
+  it('skips rows missing core data and reports them', () => {
+    const { rows, issues } = parsePastedData(GOLDEN_INPUT, DEFAULT_PROVIDER_RULES, market('CA'));
+    expect(rows.map(row => row.gameCode)).toEqual(['gg-001', 'gt-002', 'ags-003', 'pt-004', 'unk-005', 'elk-006']);
+    expect(issues.filter(issue => issue.severity === 'error')).toEqual([expect.objectContaining({ line: 8, skipped: true })]);
+  });
+
+  it('warns once per unknown provider with the closest known one', () => {
+    const { issues } = parsePastedData(GOLDEN_INPUT, DEFAULT_PROVIDER_RULES, market('CA'));
+    expect(issues.filter(issue => issue.unknownProvider).map(issue => [issue.line, issue.unknownProvider])).toEqual([
+      [6, { name: 'Unknown Studio', suggestion: undefined }],
+      [7, { name: 'ELK', suggestion: 'ELK Studios' }],
+    ]);
+  });
+
+  it('applies market flag defaults to blank cells only', () => {
+    const comWithFlags = { ...market('COM'), defaultFlags: { isActive: false } };
+    const { rows } = parsePastedData(GOLDEN_INPUT, DEFAULT_PROVIDER_RULES, comWithFlags);
+    expect(rows.map(row => row.isActive)).toEqual([false, true, true, false, false, false]);
+  });
+
+  it('falls back to the built-in flag defaults for fields a market does not override', () => {
+    const comWithFlags = { ...market('COM'), defaultFlags: { isGameNew: false } };
+    const ca = parseRow({});
+    const com = parsePastedData('IMS Game Code\tName\tGame Provider\ncode-1\tTest Game\tAGS', DEFAULT_PROVIDER_RULES, comWithFlags).rows[0];
+    expect([ca.isGameNew, com.isGameNew]).toEqual([DEFAULT_FLAG_VALUES.isGameNew, false]);
+    expect(BOOLEAN_OUTPUT_FIELDS.filter(field => field !== 'isGameNew').every(field => com[field] === DEFAULT_FLAG_VALUES[field])).toBe(true);
+  });
+
+  it.each(['CA', 'COM'])('matches the %s golden output', async (marketId) => {
+    const { rows } = parsePastedData(GOLDEN_INPUT, DEFAULT_PROVIDER_RULES, market(marketId));
+    await expect(generateCsvContent(rows, OUTPUT_CSV_COLUMNS)).toMatchFileSnapshot(`./fixtures/games.${marketId}.expected.csv`);
+  });
+});
+
+describe('generateCsvContent', () => {
+  const rows = [{ ...parseRow({}), description: 'Stars, "wild"\nreels' }];
+
+  it('returns an empty string for no rows', () => {
+    expect(generateCsvContent([], OUTPUT_CSV_COLUMNS)).toBe('');
+  });
+
+  it('writes the requested columns in order and quotes per RFC 4180', () => {
+    expect(generateCsvContent(rows, ['description', 'gameCode', 'isActive'])).toBe(
+      'description,gameCode,isActive\n"Stars, ""wild""\nreels",code-1,true'
+    );
+  });
+
+  it('honours format, line ending and BOM options', () => {
+    const content = generateCsvContent([...rows, ...rows], ['gameCode', 'name'], {
+      ...DEFAULT_CSV_OUTPUT_OPTIONS,
+      format: 'semicolon',
+      lineEnding: 'CRLF',
+      includeBom: true,
+    });
+    expect(content).toBe('\uFEFFgameCode;name\r\ncode-1;Test Game\r\ncode-1;Test Game');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { BaselineExport, ProcessedGameData } from '../types';
+import { DEFAULT_SLUG_RULES } from '../constants';
+import { conflictsToIssues, findCatalogSlugIssues, findDuplicateConflicts, findKeptRowIndexes, remapIssueRows, resolveDuplicates } from '../services/duplicateDetection';
+import { ValidationIssue } from '../types';
+
+const game = (gameCode: string, seoFriendlyGameName: string, fields: Partial<ProcessedGameData> = {}) =>
+  ({ gameCode, mobileGameCode: gameCode, seoFriendlyGameName, ...fields }) as ProcessedGameData;
+
+const catalog: BaselineExport = {
+  fileName: 'catalog.csv',
+  columns: ['gameCode', 'seoFriendlyGameName'],
+  rows: [
+    { gameCode: 'old-1', seoFriendlyGameName: 'gold-rush' },
+    { gameCode: 'old-2', seoFriendlyGameName: 'gold-rush-2' },
+    { gameCode: 'same-1', seoFriendlyGameName: 'book-of-dead' },
+  ],
+};
+
+describe('findDuplicateConflicts', () => {
+  it('matches values trimmed and case-insensitively, ignoring blanks', () => {
+    const rows = [
+      game('GG-1', 'gold', { articleId: '' }),
+      game('gg-1 ', 'silver', { articleId: '' }),
+      game('gg-2', 'GOLD', { mobileGameCode: 'm-2' }),
+    ];
+    expect(findDuplicateConflicts(rows)).toEqual([
+      { field: 'gameCode', value: 'GG-1', rowIndexes: [0, 1] },
+      { field: 'mobileGameCode', value: 'GG-1', rowIndexes: [0, 1] },
+      { field: 'seoFriendlyGameName', value: 'gold', rowIndexes: [0, 2] },
+    ]);
+  });
+
+  it('reports each row of a conflict with the lines of the others', () => {
+    const rows = [game('a', 'gold', { sourceLine: 3 }), game('b', 'gold', { sourceLine: 9 }), game('c', 'gold')];
+    const issues = conflictsToIssues(rows, findDuplicateConflicts(rows));
+    expect(issues.map(issue => [issue.line, issue.severity, issue.message])).toEqual([
+      [3, 'error', 'Duplicate seoFriendlyGameName "gold" also on line 9, 4.'],
+      [9, 'error', 'Duplicate seoFriendlyGameName "gold" also on line 3, 4.'],
+      [4, 'error', 'Duplicate seoFriendlyGameName "gold" also on line 3, 9.'],
+    ]);
+  });
+});
+
+describe('resolveDuplicates', () => {
+  const rows = [game('a', 'gold'), game('b', 'silver'), game('A', 'bronze'), game('c', 'SILVER')];
+
+  it('keeps the first row of each duplicate group', () => {
+    const { rows: kept, keptIndexes } = resolveDuplicates(rows, 'keepFirst');
+    expect(keptIndexes).toEqual([0, 1]);
+    expect(kept).toEqual([rows[0], rows[1]]);
+  });
+
+  it('keeps the last row of each duplicate group, in input order', () => {
+    expect(resolveDuplicates(rows, 'keepLast').keptIndexes).toEqual([2, 3]);
+  });
+
+  it('keeps rows that only share a warning-level value', () => {
+    const shared = [game('a', 'gold', { articleId: '7', defaultGameImage: 'img.png' }), game('b', 'silver', { articleId: '7', defaultGameImage: 'IMG.png' })];
+    expect(resolveDuplicates(shared, 'keepFirst').keptIndexes).toEqual([0, 1]);
+  });
+
+  it('renames repeated slugs and keeps every row', () => {
+    const resolved = resolveDuplicates([game('a', 'gold'), game('b', 'GOLD'), game('c', 'gold-2'), game('d', 'gold')], 'suffixSlug');
+    expect(resolved.keptIndexes).toEqual([0, 1, 2, 3]);
+    expect(resolved.rows.map(row => row.seoFriendlyGameName)).toEqual(['gold', 'gold-3', 'gold-2', 'gold-4']);
+  });
+});
+
+describe('findKeptRowIndexes', () => {
+  it('drops the same rows in every market, checking each market\'s slugs', () => {
+    const market1 = [game('a', 'gold'), game('b', 'silver'), game('c', 'bronze')];
+    const market2 = [game('a', 'or'), game('b', 'argent'), game('c', 'argent')];
+    expect(findKeptRowIndexes([market1, market2], 'keepFirst')).toEqual([0, 1]);
+    expect(findKeptRowIndexes([market1, market2], 'keepLast')).toEqual([0, 2]);
+  });
+
+  it('only weighs rows that are kept', () => {
+    const market1 = [game('a', 'gold'), game('b', 'gold'), game('c', 'bronze')];
+    const market2 = [game('a', 'or'), game('b', 'argent'), game('c', 'argent')];
+    expect(findKeptRowIndexes([market1, market2], 'keepFirst')).toEqual([0, 2]);
+  });
+});
+
+describe('remapIssueRows', () => {
+  it('moves issues to the new row indexes and drops those of removed rows', () => {
+    const issue = (line: number, rowIndex?: number): ValidationIssue => ({ line, rowIndex, severity: 'warning', skipped: rowIndex === undefined, message: `line ${line}` });
+    expect(remapIssueRows([issue(2, 0), issue(3, 1), issue(4, 2), issue(5)], [0, 2])).toEqual([issue(2, 0), issue(4, 1), issue(5)]);
+  });
+});
+
+describe('findCatalogSlugIssues', () => {
+  it('flags slugs another game has in the catalog and suggests a free one', () => {
+    const rows = [game('new-1', 'Gold-Rush'), game('same-1', 'book-of-dead'), game('new-2', 'gold-rush-3')];
+    expect(findCatalogSlugIssues(rows, catalog)).toEqual([{
+      line: 2,
+      rowIndex: 0,
+      column: 'seoFriendlyGameName',
+      field: 'seoFriendlyGameName',
+      severity: 'error',
+      skipped: false,
+      message: 'Slug "Gold-Rush" is already used by old-1 in catalog.csv. Suggested: "gold-rush-4".',
+      suggestedValue: 'gold-rush-4',
+    }]);
+  });
+
+  it('keeps the suggestion within the length rule', () => {
+    const rules = { ...DEFAULT_SLUG_RULES, maxLength: 10 };
+    expect(findCatalogSlugIssues([game('new-1', 'gold-rush')], catalog, rules)[0].suggestedValue).toBe('gold-2');
+  });
+
+  it('ignores a catalog without slugs', () => {
+    expect(findCatalogSlugIssues([game('new-1', 'gold-rush')], { ...catalog, rows: [{ gameCode: 'old-1' }] })).toEqual([]);
+  });
+});
+
+describe('resolveDuplicates suffixSlug', () => {
+  it('keeps suffixed slugs within the slug rules and clear of reserved slugs', () => {
+    const rows = [game('a', 'big-bass-bonanza'), game('b', 'big-bass-bonanza'), game('c', 'Big-Bass-Bonanza')];
+    const { rows: resolved } = resolveDuplicates(rows, 'suffixSlug', { ...DEFAULT_SLUG_RULES, maxLength: 12 }, ['big-bass-2']);
+    expect(resolved.map(row => row.seoFriendlyGameName)).toEqual(['big-bass-bonanza', 'big-bass-3', 'big-bass-4']);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { ProcessedGameData } from '../types';
+import { changesetColumns, diffAgainstBaseline, parseBaselineExport, selectRowsByStatus } from '../services/exportDiff';
+
+const game = (gameCode: string, fields: Partial<ProcessedGameData> = {}) =>
+  ({ gameCode, name: `Game ${gameCode}`, isActive: true, articleId: '', ...fields }) as ProcessedGameData;
+
+const baseline = parseBaselineExport(
+  [
+    'gameCode,name,isActive,articleId,notAnOutputColumn',
+    'GG-1,Game gg-1,true,,x',
+    'gg-2,Game gg-2,true,a-2,x',
+    'gg-3,Old name,false,,x',
+    'gg-9,Game gg-9,true,,x',
+  ].join('\n'),
+  'previous.csv'
+);
+
+describe('parseBaselineExport', () => {
+  it('reads rows keyed by column name', () => {
+    expect(baseline.columns).toEqual(['gameCode', 'name', 'isActive', 'articleId', 'notAnOutputColumn']);
+    expect(baseline.rows[1]).toEqual({ gameCode: 'gg-2', name: 'Game gg-2', isActive: 'true', articleId: 'a-2', notAnOutputColumn: 'x' });
+  });
+
+  it('needs a gameCode column', () => {
+    expect(() => parseBaselineExport('code,name\na,b', 'dump.csv')).toThrow('dump.csv has no gameCode column');
+    expect(() => parseBaselineExport('', 'empty.csv')).toThrow('empty.csv is empty.');
+  });
+});
+
+describe('diffAgainstBaseline', () => {
+  const current = [game('gg-1'), game('gg-2', { articleId: 'a-2' }), game('gg-3'), game('gg-4')];
+  const diff = diffAgainstBaseline(current, baseline);
+
+  it('matches rows on gameCode case-insensitively and compares shared output columns', () => {
+    expect(diff.comparedColumns).toEqual(['name', 'isActive', 'articleId']);
+    expect(diff.rows).toEqual([
+      { gameCode: 'gg-1', status: 'unchanged', rowIndex: 0, changes: {} },
+      { gameCode: 'gg-2', status: 'unchanged', rowIndex: 1, changes: {} },
+      { gameCode: 'gg-3', status: 'changed', rowIndex: 2, changes: { name: 'Old name', isActive: 'false' } },
+      { gameCode: 'gg-4', status: 'added', rowIndex: 3, changes: {} },
+      { gameCode: 'gg-9', status: 'removed', changes: {} },
+    ]);
+    expect(diff.counts).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 2 });
+  });
+
+  it('selects the current rows with a status', () => {
+    expect(selectRowsByStatus(current, diff, 'added')).toEqual([current[3]]);
+    expect(selectRowsByStatus(current, diff, 'removed')).toEqual([]);
+  });
+
+  it('writes a changeset with gameCode and every column changed in any row, in output order', () => {
+    const wider = diffAgainstBaseline([game('gg-2', { articleId: 'a-22' }), game('gg-3', { name: 'Old name' })], baseline);
+    expect(changesetColumns(wider)).toEqual(['gameCode', 'isActive', 'articleId']);
+    expect(changesetColumns(diffAgainstBaseline([game('gg-1')], baseline))).toEqual(['gameCode']);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MARKET_PROFILES, DEFAULT_PROVIDER_RULES } from '../constants';
+import { OutputColumnKey, ValidationIssue } from '../types';
+import { parsePastedData } from '../services/dataProcessor';
+import { generateExportContent, generateJsonContent, generateNdjsonContent, generateXlsxContent } from '../services/exporters';
+import { readXlsxSheets } from '../services/xlsxReader';
+import { readZipDirectory, readZipEntry } from '../services/zipArchive';
+
+const { rows } = parsePastedData(
+  'IMS Game Code\tName\tGame Provider\tisActive\nabc\tBig "Bass"\tPragmatic\tfalse\nxyz\t"Tab\u0001Line\r\nTwo"\tPragmatic\t',
+  DEFAULT_PROVIDER_RULES,
+  DEFAULT_MARKET_PROFILES[0]
+);
+const columns: OutputColumnKey[] = ['gameCode', 'name', 'isActive', 'landscape_layout1x1_mainImage'];
+const issues: ValidationIssue[] = [{ line: 3, rowIndex: 1, column: 'name', field: 'name', severity: 'warning', skipped: false, message: 'Name has a control character.' }];
+
+const asArrayBuffer = (bytes: Uint8Array) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+describe('JSON exports', () => {
+  it('writes the output columns with booleans kept and unset optional columns left out', () => {
+    expect(JSON.parse(generateJsonContent(rows, columns))).toEqual([
+      { gameCode: 'abc', name: 'Big "Bass"', isActive: false },
+      { gameCode: 'xyz', name: 'Tab\u0001Line\r\nTwo', isActive: true },
+    ]);
+  });
+
+  it('writes NDJSON with one game per line', () => {
+    const lines = generateNdjsonContent(rows, columns).split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe('');
+    expect(lines.slice(0, 2).map(line => JSON.parse(line).gameCode)).toEqual(['abc', 'xyz']);
+  });
+});
+
+describe('generateXlsxContent', () => {
+  it('round-trips games and issues through the workbook reader', async () => {
+    const sheets = await readXlsxSheets(asArrayBuffer(await generateXlsxContent(rows, columns, issues)));
+    expect(sheets).toEqual([
+      {
+        name: 'Games',
+        rows: [
+          ['gameCode', 'name', 'isActive', 'landscape_layout1x1_mainImage'],
+          ['abc', 'Big "Bass"', 'FALSE'],
+          ['xyz', 'Tab\u0001Line\r\nTwo', 'TRUE'],
+        ],
+      },
+      { name: 'Validation Issues', rows: [['Line', 'Severity', 'Column', 'Skipped', 'Message'], ['3', 'warning', 'name', 'FALSE', 'Name has a control character.']] },
+    ]);
+  });
+
+  it('freezes the header row and stores booleans as boolean cells', async () => {
+    const workbook = asArrayBuffer(await generateXlsxContent(rows, columns, []));
+    const entry = readZipDirectory(workbook).find(e => e.name === 'xl/worksheets/sheet1.xml')!;
+    const xml = new TextDecoder().decode(await readZipEntry(workbook, entry));
+    expect(xml).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+    expect(xml).toContain('<c r="C2" t="b"><v>0</v></c>');
+    expect(xml).toContain('Tab_x0001_Line_x000D_\nTwo');
+  });
+});
+
+describe('generateExportContent', () => {
+  it('writes delimited text for the CSV formats and bytes for XLSX', async () => {
+    expect(await generateExportContent(rows.slice(0, 1), ['gameCode', 'isActive'], { format: 'tsv', includeBom: false, lineEnding: 'LF' })).toBe('gameCode\tisActive\nabc\tfalse');
+    expect(await generateExportContent(rows, columns, { format: 'xlsx', includeBom: true, lineEnding: 'CRLF' })).toBeInstanceOf(Uint8Array);
+  });
+});
@@ -0,0 +1,93 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MARKET_PROFILES, DEFAULT_PROVIDER_RULES } from '../constants';
+import { importFile, mondayJsonToRows } from '../services/fileImport';
+import { parseDelimitedText } from '../services/delimitedText';
+import { parsePastedData } from '../services/dataProcessor';
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+const loadFixture = (name: string) => {
+  const file = readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+};
+
+describe('importFile', () => {
+  it('reads every worksheet of a workbook in sheet order', async () => {
+    const { format, sheets } = await importFile('board.xlsx', loadFixture('games.xlsx'));
+    expect(format).toBe('xlsx');
+    expect(sheets.map(sheet => [sheet.name, sheet.rowCount])).toEqual([['Notes', 0], ['Games & Slots', 2]]);
+  });
+
+  it('keeps shared, rich, inline and formula strings, booleans, numbers and gap rows', async () => {
+    const { sheets } = await importFile('board.xlsx', loadFixture('games.xlsx'));
+    expect(parseDelimitedText(sheets[1].text).rows.map(row => row.cells)).toEqual([
+      ['IMS Game Code', 'Name', 'Game Provider', 'isActive', 'articleId'],
+      ['gg-001', 'Book of Gold™ & Riches', 'Games Global', 'TRUE', '1001'],
+      ['gt-002', 'Line one\r\nLine "two"', 'greentube', '', '1002'],
+    ]);
+  });
+
+  it('feeds the chosen sheet to parsePastedData', async () => {
+    const { sheets } = await importFile('board.xlsx', loadFixture('games.xlsx'));
+    const { rows } = parsePastedData(sheets[1].text, DEFAULT_PROVIDER_RULES, DEFAULT_MARKET_PROFILES[0]);
+    expect(rows.map(row => [row.gameCode, row.name, row.isActive, row.articleId])).toEqual([
+      ['gg-001', 'Book of Gold™ & Riches', true, '1001'],
+      ['gt-002', 'Line one\r\nLine "two"', true, '1002'],
+    ]);
+  });
+
+  it('passes CSV and TSV text through unchanged', async () => {
+    const text = 'IMS Game Code,Name,Game Provider\nabc,"Big Bass, Bonanza",Pragmatic\n';
+    expect(await importFile('games.csv', encode(text))).toEqual({
+      fileName: 'games.csv',
+      format: 'delimited',
+      sheets: [{ name: 'games.csv', text, rowCount: 1 }],
+    });
+  });
+
+  it('rejects empty files and old .xls workbooks', async () => {
+    await expect(importFile('games.tsv', encode(' \n'))).rejects.toThrow('games.tsv is empty.');
+    await expect(importFile('games.xls', encode('x'))).rejects.toThrow(/save it as \.xlsx/);
+  });
+});
+
+describe('mondayJsonToRows', () => {
+  it('reads items_page items from an API response with column titles', () => {
+    const response = {
+      data: {
+        boards: [{
+          items_page: {
+            items: [
+              { name: 'Big Bass', column_values: [{ id: 'text1', text: 'pp-001', column: { title: 'IMS Game Code' } }, { id: 'status', text: 'Pragmatic', column: { title: 'Game Provider' } }] },
+              { name: 'Wolf Run', column_values: [{ id: 'text1', text: 'ags-7', column: { title: 'IMS Game Code' } }, { id: 'date4', text: null, column: { title: 'Launch' } }] },
+            ],
+          },
+        }],
+      },
+    };
+    expect(mondayJsonToRows(response)).toEqual([
+      ['Name', 'IMS Game Code', 'Game Provider', 'Launch'],
+      ['Big Bass', 'pp-001', 'Pragmatic', ''],
+      ['Wolf Run', 'ags-7', '', ''],
+    ]);
+  });
+
+  it('looks up titles in the board columns when column values only carry an id', () => {
+    const board = { columns: [{ id: 'text1', title: 'IMS Game Code' }], items: [{ name: 'Big Bass', column_values: [{ id: 'text1', text: 'pp-001' }] }] };
+    expect(mondayJsonToRows(board)).toEqual([['Name', 'IMS Game Code'], ['Big Bass', 'pp-001']]);
+  });
+
+  it('reads a plain array of objects keyed by header', () => {
+    expect(mondayJsonToRows([{ Name: 'Big Bass', isActive: true }, { Name: 'Wolf Run', 'IMS Game Code': 'ags-7' }])).toEqual([
+      ['Name', 'isActive', 'IMS Game Code'],
+      ['Big Bass', 'true', ''],
+      ['Wolf Run', '', 'ags-7'],
+    ]);
+  });
+
+  it('rejects other JSON', () => {
+    expect(() => mondayJsonToRows({ hello: 'world' })).toThrow(/Monday\.com board export/);
+    expect(() => mondayJsonToRows({ data: { boards: [{ items: [] }] } })).toThrow('The JSON file has no items.');
+  });
+});
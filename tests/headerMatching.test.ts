@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MARKET_PROFILES, DEFAULT_PROVIDER_RULES } from '../constants';
+import { matchHeaders, MissingHeadersError } from '../services/headerMatching';
+import { parsePastedData } from '../services/dataProcessor';
+
+describe('matchHeaders', () => {
+  it('ignores case and whitespace', () => {
+    const { indices, missingRequired } = matchHeaders(['IMS game code', ' Game provider ', 'name', 'IS ACTIVE']);
+    expect(indices).toMatchObject({ GAME_CODE: 0, GAME_PROVIDER: 1, NAME: 2, IS_ACTIVE: 3 });
+    expect(missingRequired).toEqual([]);
+  });
+
+  it('falls back to aliases when the header name is absent', () => {
+    const { indices } = matchHeaders(['Code', 'Title', 'Provider']);
+    expect(indices).toMatchObject({ GAME_CODE: 0, NAME: 1, GAME_PROVIDER: 2 });
+  });
+
+  it('prefers the exact header name over an alias', () => {
+    const { indices } = matchHeaders(['Provider', 'Game Provider', 'Name', 'IMS Game Code']);
+    expect(indices.GAME_PROVIDER).toBe(1);
+  });
+
+  it('uses saved mappings first and lets each column map to one field only', () => {
+    const { indices, missingRequired } = matchHeaders(['Studio Name', 'Name', 'ID'], { GAME_PROVIDER: 'studio name', GAME_CODE: 'Name' });
+    expect(indices).toMatchObject({ GAME_PROVIDER: 0, GAME_CODE: 1 });
+    expect(missingRequired).toEqual(['NAME']);
+  });
+});
+
+describe('parsePastedData header mapping', () => {
+  const text = 'Game ID\tName\tProvider\nabc\tBig Bass\tPragmatic';
+
+  it('throws MissingHeadersError with the pasted headers', () => {
+    const error = (() => {
+      try {
+        parsePastedData(text, DEFAULT_PROVIDER_RULES, DEFAULT_MARKET_PROFILES[0]);
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(MissingHeadersError);
+    expect(error).toMatchObject({ missingFields: ['GAME_CODE'], headers: ['Game ID', 'Name', 'Provider'], sampleRow: ['abc', 'Big Bass', 'Pragmatic'] });
+  });
+
+  it('parses once the missing column is mapped', () => {
+    const { rows } = parsePastedData(text, DEFAULT_PROVIDER_RULES, DEFAULT_MARKET_PROFILES[0], { GAME_CODE: 'Game ID' });
+    expect(rows[0]).toMatchObject({ gameCode: 'abc', name: 'Big Bass' });
+  });
+});
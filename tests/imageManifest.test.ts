@@ -0,0 +1,86 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { ImageManifest, ProcessedGameData } from '../types';
+import { parseImageManifest, normalizeLibraryPath, verifyImages } from '../services/imageManifest';
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+const manifest: ImageManifest = {
+  fileName: 'library.txt',
+  paths: [
+    '/library/Game Icons/RubyPlay/ruby-001.webp',
+    '/library/Game Icons/AGS/wolf.png',
+    '/library/Game Icons/AGS/wolf-run.webp',
+    '/library/Game Icons/Pragmatic/bigbass.webp',
+    '/library/Layouts/AGS/wolf-1x1.webp',
+  ],
+};
+
+const row = (images: Partial<ProcessedGameData>): ProcessedGameData => ({
+  gameCode: 'code', name: 'Game', isActive: true, mobileGameCode: 'code', seoFriendlyGameName: 'game', defaultGameImage: '',
+  gameProvider: 'AGS', desktopGameType: 'POP', mobileGameType: 'POP', demoModeSupport: 'unavailable', gameMode: 'default',
+  ...images,
+} as ProcessedGameData);
+
+const messages = (images: Partial<ProcessedGameData>) => verifyImages([row(images)], manifest).map(issue => issue.message);
+
+describe('parseImageManifest', () => {
+  it('reads a listing with one path per line relative to the library', () => {
+    const result = parseImageManifest('files.txt', encode('./Game Icons/AGS/wolf.png\r\nlibrary/Layouts/x.webp\n\n'));
+    expect(result.paths).toEqual(['/library/Game Icons/AGS/wolf.png', '/library/Layouts/x.webp']);
+  });
+
+  it('reads JSON arrays and objects with a files array', () => {
+    expect(parseImageManifest('a.json', encode('["/library/a.webp"]')).paths).toEqual(['/library/a.webp']);
+    expect(parseImageManifest('b.json', encode('{"files": ["b.webp"]}')).paths).toEqual(['/library/b.webp']);
+    expect(() => parseImageManifest('c.json', encode('{"other": 1}'))).toThrow(/files/);
+  });
+
+  it('lists the files in a zip, skipping directories', () => {
+    const zip = readFileSync(new URL('./fixtures/library.zip', import.meta.url));
+    const buffer = zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength) as ArrayBuffer;
+    expect(parseImageManifest('library.zip', buffer).paths).toEqual([
+      '/library/Game Icons/RubyPlay/ruby-001.webp',
+      '/library/Game Icons/AGS/wolf.png',
+    ]);
+  });
+});
+
+describe('normalizeLibraryPath', () => {
+  it('decodes URL escapes and drops query strings', () => {
+    expect(normalizeLibraryPath('/library/Game%20Icons/AGS/wolf.png?v=2')).toBe('/library/Game Icons/AGS/wolf.png');
+  });
+});
+
+describe('verifyImages', () => {
+  it('accepts paths that exist, including encoded ones, and skips URLs', () => {
+    expect(messages({ defaultGameImage: '/library/Game%20Icons/Pragmatic/bigbass.webp', landscape_layout1x1_mainImage: '/library/Layouts/AGS/wolf-1x1.webp' })).toEqual([]);
+    expect(messages({ defaultGameImage: 'https://cdn.example.com/missing.webp' })).toEqual([]);
+  });
+
+  it('flags wrong folder casing', () => {
+    expect(messages({ defaultGameImage: '/library/Game%20Icons/Rubyplay/ruby-001.webp' })).toEqual([
+      expect.stringContaining('Wrong casing: the library has "/library/Game Icons/RubyPlay/ruby-001.webp"'),
+    ]);
+  });
+
+  it('flags wrong extensions', () => {
+    expect(messages({ defaultGameImage: '/library/Game%20Icons/AGS/wolf.webp' })).toEqual([
+      expect.stringContaining('Wrong extension: the library has "/library/Game Icons/AGS/wolf.png"'),
+    ]);
+  });
+
+  it('suggests the closest file for missing images', () => {
+    expect(messages({ portrait_layout1x1_mainImage: '/library/Game Icons/AGS/wolfrun.webp' })).toEqual([
+      expect.stringContaining('closest file is "/library/Game Icons/AGS/wolf-run.webp"'),
+    ]);
+    expect(messages({ defaultGameImage: '/library/Game Icons/Other/bigbass.webp' })).toEqual([
+      expect.stringContaining('closest file is "/library/Game Icons/Pragmatic/bigbass.webp"'),
+    ]);
+  });
+
+  it('reports the image field so editing it clears the warning', () => {
+    const [issue] = verifyImages([row({ square_layout2x2_mobileImage: 'nowhere.webp', sourceLine: 7 })], manifest);
+    expect(issue).toMatchObject({ line: 7, rowIndex: 0, field: 'square_layout2x2_mobileImage', severity: 'warning' });
+  });
+});
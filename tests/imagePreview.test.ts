@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { resolveImagePreviewUrl, layoutImageField } from '../services/imagePreview';
+
+describe('resolveImagePreviewUrl', () => {
+  it('prefixes library paths with the market host', () => {
+    expect(resolveImagePreviewUrl('/library/Game%20Icons/AGS/a.webp', 'https://www.example.ca/')).toBe('https://www.example.ca/library/Game%20Icons/AGS/a.webp');
+  });
+
+  it('leaves absolute URLs and paths without a host alone', () => {
+    expect(resolveImagePreviewUrl('https://cdn.example.com/a.webp', 'https://www.example.ca')).toBe('https://cdn.example.com/a.webp');
+    expect(resolveImagePreviewUrl('/library/a.webp')).toBe('/library/a.webp');
+    expect(resolveImagePreviewUrl('  ', 'https://www.example.ca')).toBe('');
+  });
+});
+
+describe('layoutImageField', () => {
+  it('builds the output field name', () => {
+    expect(layoutImageField('portrait', '2x1', 'guestMobileImage')).toBe('portrait_layout2x1_guestMobileImage');
+  });
+});
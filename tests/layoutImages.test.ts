@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { MarketProfile } from '../types';
+import { DEFAULT_MARKET_PROFILES, DEFAULT_PROVIDER_RULES, EXAMPLE_LAYOUT_IMAGE_TEMPLATE } from '../constants';
+import { expandLayoutImageTemplate, findUnknownPlaceholders } from '../services/layoutImages';
+import { parsePastedData } from '../services/dataProcessor';
+
+const parse = (market: Partial<MarketProfile>, extraHeaders: Record<string, string> = {}) => {
+  const row = { 'IMS Game Code': 'gg-001', 'Name': 'Gold Rush', 'Game Provider': 'Games Global', ...extraHeaders };
+  const text = `${Object.keys(row).join('\t')}\n${Object.values(row).join('\t')}`;
+  return parsePastedData(text, DEFAULT_PROVIDER_RULES, { ...DEFAULT_MARKET_PROFILES[1], ...market }).rows[0];
+};
+
+describe('expandLayoutImageTemplate', () => {
+  it('substitutes URL-encoded values and keeps unknown tokens', () => {
+    const path = expandLayoutImageTemplate('/library/{providerFolder}/{gameCode}_{orientation}_{layout}{variant}{size}.webp', {
+      providerFolder: 'Games Global', provider: 'Games Global', gameCode: 'gg-001', slug: 'gold-rush',
+      orientation: 'square', layout: '2x1', variant: 'guestMobile',
+    });
+    expect(path).toBe('/library/Games%20Global/gg-001_square_2x1guestMobile{size}.webp');
+    expect(findUnknownPlaceholders('{gameCode}{size}{slug}{Variant}')).toEqual(['size', 'Variant']);
+  });
+});
+
+describe('layout image auto-fill', () => {
+  it('leaves rows alone when the market has no template or copy option', () => {
+    const row = parse({});
+    expect(row.landscape_layout1x1_mainImage).toBeUndefined();
+    expect(row.imageSources).toBeUndefined();
+  });
+
+  it('fills blank layout columns from the market template and marks them generated', () => {
+    const row = parse({ layoutImageTemplate: EXAMPLE_LAYOUT_IMAGE_TEMPLATE }, { portrait_layout1x2_mobileImage: '/library/supplied.webp' });
+    expect(row.landscape_layout1x1_mainImage).toBe('/library/Game%20Tiles/Games%20Global/gg-001_landscape_1x1main.webp');
+    expect(row.square_layout2x2_guestMobileImage).toBe('/library/Game%20Tiles/Games%20Global/gg-001_square_2x2guestMobile.webp');
+    expect(row.portrait_layout1x2_mobileImage).toBe('/library/supplied.webp');
+    expect(row.imageSources?.landscape_layout1x1_mainImage).toBe('template');
+    expect(row.imageSources?.portrait_layout1x2_mobileImage).toBeUndefined();
+    expect(Object.keys(row.imageSources ?? {})).toHaveLength(47);
+  });
+
+  it('copies a supplied main image into blank slots before applying the template', () => {
+    const row = parse(
+      { layoutImageTemplate: '/library/{gameCode}-{variant}.webp', copyMainImages: true },
+      { square_layout1x1_mainImage: '/library/main.webp', square_layout1x1_guestMainImage: '/library/guest.webp' }
+    );
+    expect(row.square_layout1x1_mobileImage).toBe('/library/main.webp');
+    expect(row.square_layout1x1_guestMainImage).toBe('/library/guest.webp');
+    expect(row.square_layout1x1_guestMobileImage).toBe('/library/main.webp');
+    expect(row.imageSources?.square_layout1x1_guestMobileImage).toBe('copiedFromMain');
+    expect(row.square_layout1x2_mobileImage).toBe('/library/gg-001-mobile.webp');
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { MarketProfile } from '../types';
+import { DEFAULT_IMAGE_ROOT, DEFAULT_MARKET_PROFILES, DEFAULT_PROVIDER_RULES, DEFAULT_SLUG_RULES } from '../constants';
+import {
+  createMarketProfile,
+  loadMarketProfiles,
+  loadSelectedMarketIds,
+  saveMarketProfiles,
+  saveSelectedMarketIds,
+} from '../services/marketProfiles';
+import { runProcessingJob } from '../services/processingJobs';
+
+const stored = new Map<string, string>();
+
+beforeEach(() => {
+  stored.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key),
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('market profile storage', () => {
+  it('falls back to the built-in markets when nothing usable is stored', () => {
+    expect(loadMarketProfiles()).toBe(DEFAULT_MARKET_PROFILES);
+    stored.set('csvCreator.marketProfiles', '[]');
+    expect(loadMarketProfiles()).toBe(DEFAULT_MARKET_PROFILES);
+    stored.set('csvCreator.marketProfiles', '{not json');
+    expect(loadMarketProfiles()).toBe(DEFAULT_MARKET_PROFILES);
+    expect(console.warn).toHaveBeenCalledWith("Ignoring stored market profiles:", expect.any(SyntaxError));
+  });
+
+  it('reads back saved profiles', () => {
+    const profiles: MarketProfile[] = [{
+      id: 'UK',
+      label: '.CO.UK',
+      imageRoot: '/library/uk/',
+      defaultFlags: { isGameNew: false },
+      previewHost: 'https://www.example.co.uk',
+      copyMainImages: true,
+      slugRules: { ...DEFAULT_SLUG_RULES, stopWords: ['the'], maxLength: 60 },
+    }];
+    saveMarketProfiles(profiles);
+    expect(loadMarketProfiles()).toEqual([{ ...profiles[0], columnProfileId: undefined, layoutImageTemplate: undefined }]);
+  });
+
+  it('drops profiles without an id or label and repairs malformed fields', () => {
+    stored.set('csvCreator.marketProfiles', JSON.stringify([
+      { id: 'CA' },
+      { id: 'COM', label: '.COM', imageRoot: 5, defaultFlags: null, slugRules: { maxLength: -1, stopWords: ['of', 3], expandUmlauts: 'yes' } },
+    ]));
+    expect(loadMarketProfiles()).toEqual([{
+      id: 'COM',
+      label: '.COM',
+      imageRoot: DEFAULT_IMAGE_ROOT,
+      defaultFlags: {},
+      columnProfileId: undefined,
+      previewHost: undefined,
+      layoutImageTemplate: undefined,
+      copyMainImages: false,
+      slugRules: { ...DEFAULT_SLUG_RULES, stopWords: ['of'] },
+    }]);
+  });
+
+  it('remembers the selected markets', () => {
+    expect(loadSelectedMarketIds()).toEqual(['CA']);
+    saveSelectedMarketIds(['CA', 'COM']);
+    expect(loadSelectedMarketIds()).toEqual(['CA', 'COM']);
+    stored.set('csvCreator.selectedMarkets', '[1]');
+    expect(loadSelectedMarketIds()).toEqual(['CA']);
+  });
+
+  it('creates markets with an unused id', () => {
+    const existing = [...DEFAULT_MARKET_PROFILES, { ...DEFAULT_MARKET_PROFILES[0], id: 'MARKET3' }];
+    expect(createMarketProfile(existing)).toEqual({ id: 'MARKET4', label: 'Market 4', imageRoot: DEFAULT_IMAGE_ROOT, defaultFlags: {} });
+  });
+});
+
+describe('processing several markets', () => {
+  it('derives each market with its own image root, provider folders and flag defaults', async () => {
+    const markets: MarketProfile[] = [
+      DEFAULT_MARKET_PROFILES[0],
+      { id: 'UK', label: '.CO.UK', imageRoot: '/library/uk/', defaultFlags: { isActive: false } },
+    ];
+    const rules = DEFAULT_PROVIDER_RULES.map(rule => (rule.name === 'AGS' ? { ...rule, imageFolders: { ...rule.imageFolders, UK: 'AGS UK' } } : rule));
+    const text = 'IMS Game Code\tName\tGame Provider\tIs Active\ngg-1\tGold\tAGS\t\ngg-2\tSilver\tAGS\ttrue';
+    const { rowsByMarket } = await runProcessingJob({ kind: 'parse', text, providerRules: rules, markets, headerMappings: {} });
+
+    expect(rowsByMarket.CA.map(row => [row.defaultGameImage, row.isActive])).toEqual([
+      [`${DEFAULT_IMAGE_ROOT}AGS/gg-1.webp`, true],
+      [`${DEFAULT_IMAGE_ROOT}AGS/gg-2.webp`, true],
+    ]);
+    expect(rowsByMarket.UK.map(row => [row.defaultGameImage, row.isActive])).toEqual([
+      ['/library/uk/AGS%20UK/gg-1.webp', false],
+      ['/library/uk/AGS%20UK/gg-2.webp', true],
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { readFileSync } from 'node:fs';
+
+export interface MockGraphqlRequest {
+  query: string;
+  variables: Record<string, unknown>;
+  authorization?: string;
+  apiVersion?: string;
+}
+
+export interface MockGraphqlResponse {
+  status?: number;
+  fixture: string; // File name in tests/fixtures/monday holding the recorded response body
+}
+
+export interface MockGraphqlServer {
+  url: string;
+  requests: MockGraphqlRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Local stand-in for the Monday.com GraphQL endpoint. Each POST is recorded and answered
+ * with the recorded response the route function picks for it.
+ */
+export async function startMockGraphqlServer(route: (request: MockGraphqlRequest) => MockGraphqlResponse): Promise<MockGraphqlServer> {
+  const requests: MockGraphqlRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const { query, variables = {} } = JSON.parse(body);
+      const request: MockGraphqlRequest = {
+        query,
+        variables,
+        authorization: req.headers.authorization,
+        apiVersion: req.headers['api-version'] as string | undefined,
+      };
+      requests.push(request);
+      const { status = 200, fixture } = route(request);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(readFileSync(new URL(`../fixtures/monday/${fixture}`, import.meta.url)));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/v2`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,115 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { DEFAULT_MARKET_PROFILES, DEFAULT_PROVIDER_RULES, MONDAY_API_VERSION } from '../constants';
+import { fetchMondayBoard, fetchMondayRows, selectMondayColumns } from '../services/mondayApi';
+import { formatDelimitedText } from '../services/delimitedText';
+import { parsePastedData } from '../services/dataProcessor';
+import { MockGraphqlRequest, MockGraphqlResponse, MockGraphqlServer, startMockGraphqlServer } from './mocks/mondayGraphqlServer';
+
+const TOKEN = 'test-token';
+const NO_FILTER = { groupIds: [], filterColumnId: '', filterValues: [] };
+
+// Answers like the live API: board layout, first items page, then the next page by cursor.
+const recordedBoard = (request: MockGraphqlRequest): MockGraphqlResponse => {
+  if (request.authorization !== TOKEN) return { status: 401, fixture: 'unauthorized.json' };
+  if (request.query.includes('next_items_page')) return { fixture: 'items-page-2.json' };
+  if (request.query.includes('groups(ids:')) return { fixture: 'group-backlog.json' };
+  if (request.query.includes('items_page')) return { fixture: 'items-page-1.json' };
+  return { fixture: 'board.json' };
+};
+
+let server: MockGraphqlServer | undefined;
+
+const startServer = async (route = recordedBoard) => {
+  server = await startMockGraphqlServer(route);
+  return { server, connection: { apiToken: TOKEN, endpoint: server.url } };
+};
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+describe('fetchMondayBoard', () => {
+  it('loads the board layout with the token and API version', async () => {
+    const { server, connection } = await startServer();
+    const board = await fetchMondayBoard(connection, ' 1234567890 ');
+    expect(board.name).toBe('Game Launches');
+    expect(board.groups.map(group => group.title)).toEqual(['This Week', 'Backlog']);
+    expect(server.requests[0]).toMatchObject({ variables: { boardId: '1234567890' }, authorization: TOKEN, apiVersion: MONDAY_API_VERSION });
+  });
+
+  it('rejects IDs that are not board numbers before calling the API', async () => {
+    const { server, connection } = await startServer();
+    await expect(fetchMondayBoard(connection, 'game-launches')).rejects.toThrow("number in the board's URL");
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('reports a rejected token and GraphQL errors', async () => {
+    const { connection } = await startServer();
+    await expect(fetchMondayBoard({ ...connection, apiToken: 'expired' }, '1234567890')).rejects.toThrow('rejected the API token');
+    await server!.close();
+    const { connection: busy } = await startServer(() => ({ fixture: 'complexity-error.json' }));
+    await expect(fetchMondayBoard(busy, '1234567890')).rejects.toThrow('Monday.com API error: Complexity budget exhausted');
+  });
+});
+
+describe('fetchMondayRows', () => {
+  it('requests only the columns that match input headers and follows the page cursor', async () => {
+    const { server, connection } = await startServer();
+    const board = await fetchMondayBoard(connection, '1234567890');
+    const rows = await fetchMondayRows(connection, board, NO_FILTER);
+
+    expect(rows).toEqual([
+      ['Game Name', 'IMS Game Code', 'Game Provider', 'articleId'],
+      ['Book of Gold™ & Riches', 'gg-001', 'Games Global', '1001'],
+      ['Lucky 7s', 'gt-002', 'greentube', '1002'],
+      ['Starlight "Deluxe"', 'pp-003', 'Pragmatic', ''],
+    ]);
+    expect(server.requests[1].variables.columnIds).toEqual(['text_code', 'mirror_provider', 'text_article']);
+    expect(server.requests[2].variables.cursor).toBe('MSw5NzI4MDA5MDAsaV9YcmxJb0p1VEdYc1VWeGlxeF9kLDg4MiwzNXw0MTQ1NzU1MTE5');
+  });
+
+  it('feeds the rows through the same processing as a paste', async () => {
+    const { connection } = await startServer();
+    const board = await fetchMondayBoard(connection, '1234567890');
+    const text = formatDelimitedText(await fetchMondayRows(connection, board, NO_FILTER));
+    const { rows } = parsePastedData(text, DEFAULT_PROVIDER_RULES, DEFAULT_MARKET_PROFILES[0]);
+    expect(rows.map(row => [row.gameCode, row.name, row.gameProvider, row.articleId])).toEqual([
+      ['gg-001', 'Book of Gold™ & Riches', 'Games Global', '1001'],
+      ['gt-002', 'Lucky 7s', 'greentube', '1002'],
+      ['pp-003', 'Starlight "Deluxe"', 'Pragmatic Play', ''],
+    ]);
+  });
+
+  it('reads only the chosen groups', async () => {
+    const { server, connection } = await startServer();
+    const board = await fetchMondayBoard(connection, '1234567890');
+    const rows = await fetchMondayRows(connection, board, { ...NO_FILTER, groupIds: ['new_group_backlog'] });
+    expect(rows.slice(1).map(row => row[1])).toEqual(['gt-002']);
+    expect(server.requests[1].variables.groupId).toBe('new_group_backlog');
+  });
+
+  it('keeps items whose filter column text matches, ignoring case', async () => {
+    const { server, connection } = await startServer();
+    const board = await fetchMondayBoard(connection, '1234567890');
+    const rows = await fetchMondayRows(connection, board, { groupIds: [], filterColumnId: 'status', filterValues: ['READY'] });
+    expect(rows.slice(1).map(row => row[1])).toEqual(['gg-001', 'pp-003']);
+    expect(rows[0]).not.toContain('Launch Status');
+    expect(server.requests[1].variables.columnIds).toContain('status');
+
+    await expect(fetchMondayRows(connection, board, { groupIds: [], filterColumnId: 'status', filterValues: ['Stuck'] }))
+      .rejects.toThrow('None of the 3 item(s) on Game Launches match the filter.');
+  });
+});
+
+describe('selectMondayColumns', () => {
+  it('uses saved header mappings and falls back to every column when a core column is missing', async () => {
+    const { connection } = await startServer();
+    const board = await fetchMondayBoard(connection, '1234567890');
+    const renamed = { ...board, columns: board.columns.map(column => column.id === 'text_code' ? { ...column, title: 'Portal Code' } : column) };
+
+    expect(selectMondayColumns(renamed).map(column => column.id)).toEqual(board.columns.map(column => column.id));
+    expect(selectMondayColumns(renamed, { GAME_CODE: 'Portal Code' }).map(column => column.id))
+      .toEqual(['name', 'text_code', 'mirror_provider', 'text_article']);
+  });
+});
@@ -0,0 +1,70 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CSV_OUTPUT_OPTIONS, DEFAULT_MARKET_PROFILES, DEFAULT_PROVIDER_RULES, DEFAULT_SLUG_RULES } from '../constants';
+import { runProcessingJob } from '../services/processingJobs';
+import { ProcessingCancelledError, runJobInWorker } from '../services/processingWorkerClient';
+import { parsePastedData } from '../services/dataProcessor';
+import { MissingHeadersError } from '../services/headerMatching';
+
+const input = readFileSync(new URL('./fixtures/games.tsv', import.meta.url), 'utf8');
+const parseJob = { kind: 'parse' as const, text: input, providerRules: DEFAULT_PROVIDER_RULES, markets: DEFAULT_MARKET_PROFILES, headerMappings: {} };
+
+describe('runProcessingJob', () => {
+  it('parses the input once per market and reports progress up to 1', async () => {
+    const progress: number[] = [];
+    const result = await runProcessingJob(parseJob, fraction => progress.push(fraction));
+
+    const expected = DEFAULT_MARKET_PROFILES.map(market => parsePastedData(input, DEFAULT_PROVIDER_RULES, market));
+    expect(result.rowsByMarket).toEqual({ CA: expected[0].rows, COM: expected[1].rows });
+    expect(result.issuesByMarket).toEqual({ CA: expected[0].issues, COM: expected[1].issues });
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress.at(-1)).toBe(1);
+  });
+
+  it('keeps the issues of each market, which check slugs by their own rules', async () => {
+    const text = 'IMS Game Code\tName\tGame Provider\tseoFriendlyGameName\nbb-1\tBig Bass Bonanza\tAGS\tbig-bass-bonanza';
+    const markets = [DEFAULT_MARKET_PROFILES[0], { ...DEFAULT_MARKET_PROFILES[1], slugRules: { ...DEFAULT_SLUG_RULES, maxLength: 5 } }];
+    const result = await runProcessingJob({ ...parseJob, text, markets });
+
+    expect(result.issuesByMarket.CA).toEqual([]);
+    expect(result.issuesByMarket.COM).toEqual([expect.objectContaining({
+      rowIndex: 0,
+      field: 'seoFriendlyGameName',
+      message: 'Slug "big-bass-bonanza" is longer than 5 characters. Suggested: "big".',
+      suggestedValue: 'big',
+    })]);
+  });
+
+  it('reports progress every few hundred rows of a large paste', () => {
+    const [header, firstRow] = input.split('\n');
+    const rows = Array.from({ length: 1000 }, (_, i) => firstRow.replace('gg-001', `gg-${i}`));
+    const calls: number[][] = [];
+    parsePastedData([header, ...rows].join('\n'), DEFAULT_PROVIDER_RULES, DEFAULT_MARKET_PROFILES[0], {}, (done, count) => calls.push([done, count]));
+    expect(calls).toEqual([[0, 1000], [250, 1000], [500, 1000], [750, 1000], [1000, 1000]]);
+  });
+
+  it('generates export files', async () => {
+    const { rowsByMarket } = await runProcessingJob(parseJob);
+    const content = await runProcessingJob({ kind: 'export', rows: rowsByMarket.CA, columns: ['gameCode', 'name'], options: DEFAULT_CSV_OUTPUT_OPTIONS, issues: [] });
+    const lines = String(content).split('\n');
+    expect(lines.slice(0, 2)).toEqual(['gameCode,name', 'gg-001,Book of Gold™ & Riches']);
+    expect(lines).toHaveLength(rowsByMarket.CA.length + 1);
+  });
+});
+
+describe('runJobInWorker', () => {
+  it('runs on the calling thread where workers are unavailable', async () => {
+    const result = await runJobInWorker(parseJob);
+    expect(result.rowsByMarket.CA.length).toBeGreaterThan(0);
+  });
+
+  it('keeps MissingHeadersError for the header mapping dialog', async () => {
+    await expect(runJobInWorker({ ...parseJob, text: 'Code\tTitle\nx\ty' })).rejects.toBeInstanceOf(MissingHeadersError);
+  });
+
+  it('rejects a job cancelled before it starts', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(runJobInWorker(parseJob, { signal: controller.signal })).rejects.toBeInstanceOf(ProcessingCancelledError);
+  });
+});
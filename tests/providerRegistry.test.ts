@@ -0,0 +1,105 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { DEFAULT_PROVIDER_RULES } from '../constants';
+import {
+  addProviderMapping,
+  applyProviderRuleChanges,
+  diffProviderRules,
+  findProviderRule,
+  loadProviderRules,
+  normalizeProviderName,
+  resolveProvider,
+  saveProviderRules,
+  suggestProviderRule,
+} from '../services/providerRegistry';
+
+describe('findProviderRule', () => {
+  it.each([
+    ['eyecon', 'Eyecon'],
+    ['  HACKSAW ', 'Hacksaw'],
+    ['Elk-Studios', 'ELK Studios'],
+    ['élk studios', 'ELK Studios'],
+    ['Quickspin via Playtech', 'Quickspin'],
+  ])('resolves %j to %s', (pasted, ruleName) => {
+    expect(findProviderRule(DEFAULT_PROVIDER_RULES, pasted)?.name).toBe(ruleName);
+  });
+
+  it('prefers a dedicated "via" rule over the provider without the suffix', () => {
+    expect(findProviderRule(DEFAULT_PROVIDER_RULES, 'elk studios VIA lnw')?.name).toBe('ELK Studios via LNW');
+  });
+
+  it('marks unmatched providers as unknown and keeps the pasted name', () => {
+    expect(resolveProvider(DEFAULT_PROVIDER_RULES, 'Nolimit City', 'CA')).toMatchObject({ displayName: 'Nolimit City', imageFolder: 'Nolimit City', isKnown: false });
+    expect(normalizeProviderName(' Play’n GO! ')).toBe('playngo');
+  });
+});
+
+describe('suggestProviderRule', () => {
+  it('suggests providers sharing a prefix or a near spelling', () => {
+    expect(suggestProviderRule(DEFAULT_PROVIDER_RULES, 'Pragmatic Play')?.name).toBe('Pragmatic');
+    expect(suggestProviderRule(DEFAULT_PROVIDER_RULES, 'Quikspin')?.name).toBe('Quickspin');
+    expect(suggestProviderRule(DEFAULT_PROVIDER_RULES, 'Nolimit City')).toBeUndefined();
+  });
+});
+
+describe('addProviderMapping', () => {
+  it('adds the name as an alias of the chosen rule', () => {
+    const rules = addProviderMapping(DEFAULT_PROVIDER_RULES, 'Pragmatic Play', ['CA', 'COM'], 'Pragmatic');
+    expect(findProviderRule(rules, 'pragmatic play')?.name).toBe('Pragmatic');
+    expect(rules).toHaveLength(DEFAULT_PROVIDER_RULES.length);
+  });
+
+  it('adds a new provider with its name as the image folder in every market', () => {
+    const rules = addProviderMapping(DEFAULT_PROVIDER_RULES, ' Nolimit City ', ['CA', 'COM']);
+    expect(rules.at(-1)).toMatchObject({ name: 'Nolimit City', aliases: ['Nolimit City'], imageFolders: { CA: 'Nolimit City', COM: 'Nolimit City' } });
+  });
+});
+
+describe('provider rule storage', () => {
+  const stored = new Map<string, string>();
+  const stubStorage = () => {
+    stored.clear();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+      removeItem: (key: string) => stored.delete(key),
+    });
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const [first, second, ...rest] = DEFAULT_PROVIDER_RULES;
+  const edited = { ...first, displayName: 'Edited' };
+  const added = { ...second, name: 'Nolimit City', aliases: ['Nolimit City'] };
+  const userRules = [edited, ...rest, added];
+
+  it('keeps only the changes to the built-in rules', () => {
+    expect(diffProviderRules(DEFAULT_PROVIDER_RULES)).toEqual({ changed: [], removed: [] });
+    expect(diffProviderRules([...userRules, { ...added, name: ' ' }])).toEqual({ changed: [edited, added], removed: [second.name] });
+    expect(applyProviderRuleChanges(diffProviderRules(userRules))).toEqual(userRules);
+  });
+
+  it('lets later built-in fixes through for rules the user did not change', () => {
+    const shipped = [first, second, ...rest.map(rule => ({ ...rule, desktopGameType: 'GPAS' }))];
+    expect(applyProviderRuleChanges(diffProviderRules(userRules), shipped)).toEqual([edited, ...shipped.slice(2), added]);
+  });
+
+  it('stores nothing while the rules are the built-in ones', () => {
+    stubStorage();
+    saveProviderRules(DEFAULT_PROVIDER_RULES);
+    expect(stored.size).toBe(0);
+    saveProviderRules(userRules);
+    expect(loadProviderRules()).toEqual(userRules);
+    saveProviderRules(DEFAULT_PROVIDER_RULES);
+    expect(stored.size).toBe(0);
+  });
+
+  it('ignores malformed stored changes', () => {
+    stubStorage();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stored.set('csvCreator.providerRules', JSON.stringify([edited]));
+    expect(loadProviderRules()).toBe(DEFAULT_PROVIDER_RULES);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MARKET_PROFILES, DEFAULT_PROVIDER_RULES, DEFAULT_SLUG_RULES } from '../constants';
+import { findEditedSlugIssues, findSlugProblem, generateSeoFriendlyName, suffixSlug } from '../services/slugs';
+import { ProcessedGameData } from '../types';
+import { parsePastedData } from '../services/dataProcessor';
+
+describe('generateSeoFriendlyName', () => {
+  it.each([
+    ['Book of Gold™ & Riches', 'book-of-gold-and-riches'],
+    ['  100% Hot®  Spins ', '100-hot-spins'],
+    ['Big Bass -- Splash!', 'big-bass-splash'],
+    ['-Edge Case-', 'edge-case'],
+    ['', ''],
+  ])('%j -> %j', (name, slug) => {
+    expect(generateSeoFriendlyName(name)).toBe(slug);
+  });
+
+  it.each([
+    ['Fortune Señor', 'fortune-senor'],
+    ["Björn's Gold", 'bjorns-gold'],
+    ['Björn’s “Lucky” Æsir', 'bjorns-lucky-aesir'],
+    ['Straße der Götter', 'strasse-der-gotter'],
+    ['Ørnens Øye – Søkt', 'ornens-oye-sokt'],
+    ['Œuvre ﬁnale', 'oeuvre-finale'],
+    ['Þór’s Hammer Łódź', 'thors-hammer-lodz'],
+    ['Crème Brûlée Café', 'creme-brulee-cafe'],
+    ['Mega Moolah: 5-Reel/Drive', 'mega-moolah-5-reeldrive'],
+  ])('transliterates %j -> %j', (name, slug) => {
+    expect(generateSeoFriendlyName(name)).toBe(slug);
+  });
+
+  it.each([
+    ['Wolf Gold 10,000', 'wolf-gold-10000'],
+    ['5-Reel/Drive', '5-reeldrive'],
+    ['Lucky_Seven', 'lucky_seven'],
+    ['Rock&Roll', 'rockandroll'],
+  ])('keeps the slug earlier versions made for %j', (name, slug) => {
+    expect(generateSeoFriendlyName(name)).toBe(slug);
+  });
+
+  it('expands German umlauts when the rules ask for it', () => {
+    expect(generateSeoFriendlyName('Götter & Bären', { ...DEFAULT_SLUG_RULES, expandUmlauts: true })).toBe('goetter-and-baeren');
+  });
+
+  it('uses the ampersand word and leaves out stop words unless nothing else remains', () => {
+    const rules = { ...DEFAULT_SLUG_RULES, ampersandWord: 'et', stopWords: ['the', 'of', 'et'] };
+    expect(generateSeoFriendlyName('Book of the Dead', rules)).toBe('book-dead');
+    expect(generateSeoFriendlyName('Or & Diamants', { ...rules, stopWords: [] })).toBe('or-et-diamants');
+    expect(generateSeoFriendlyName('The Of', rules)).toBe('the-of');
+  });
+
+  it('cuts long slugs at a word boundary', () => {
+    const rules = { ...DEFAULT_SLUG_RULES, maxLength: 20 };
+    expect(generateSeoFriendlyName('Legend of the Golden Dragon Megaways', rules)).toBe('legend-of-the-golden');
+    expect(generateSeoFriendlyName('Supercalifragilisticexpialidocious', rules)).toBe('supercalifragilistic');
+    expect(generateSeoFriendlyName('Legend of the Golden Dragon Megaways', { ...rules, maxLength: 0 })).toBe('legend-of-the-golden-dragon-megaways');
+  });
+});
+
+describe('findSlugProblem', () => {
+  it.each([
+    ['book-of-dead', null],
+    ['Book-Of-Dead', 'has uppercase letters'],
+    ['fortune-señor', 'has accented or non-ASCII characters'],
+    ['big bass', 'has spaces'],
+    ['-big--bass', 'has leading, trailing or repeated hyphens'],
+    ['big_bass', null],
+    ['big.bass!', 'has characters other than lowercase letters, digits, underscores and hyphens'],
+  ])('%j -> %j', (slug, problem) => {
+    expect(findSlugProblem(slug)).toBe(problem);
+  });
+
+  it('checks the length and stop word rules', () => {
+    const rules = { ...DEFAULT_SLUG_RULES, maxLength: 10, stopWords: ['of', 'the'] };
+    expect(findSlugProblem('legend-of-dragons', rules)).toBe('is longer than 10 characters');
+    expect(findSlugProblem('book-of', rules)).toBe('contains the stop word(s) "of"');
+    expect(findSlugProblem('the', rules)).toBeNull();
+  });
+});
+
+describe('suffixSlug', () => {
+  it('takes the first free suffix', () => {
+    expect(suffixSlug('gold-rush', new Set(['gold-rush', 'gold-rush-2']))).toBe('gold-rush-3');
+  });
+
+  it('shortens the slug so the suffix fits the length rule', () => {
+    const rules = { ...DEFAULT_SLUG_RULES, maxLength: 12 };
+    expect(suffixSlug('big-bass-bonanza', new Set(), rules)).toBe('big-bass-2');
+    expect(findSlugProblem(suffixSlug('big-bass-bonanza', new Set(), rules), rules)).toBeNull();
+  });
+
+  it('regenerates a slug that breaks the rules before suffixing it', () => {
+    expect(suffixSlug('Fortune Señor', new Set(['fortune-senor']))).toBe('fortune-senor-2');
+  });
+});
+
+describe('findEditedSlugIssues', () => {
+  it('checks edited slugs only', () => {
+    const rows = [
+      { gameCode: 'a', seoFriendlyGameName: 'Bad Slug' },
+      { gameCode: 'b', seoFriendlyGameName: 'Also Bad', sourceLine: 7 },
+      { gameCode: 'c', seoFriendlyGameName: 'fine' },
+    ] as ProcessedGameData[];
+    const issues = findEditedSlugIssues(rows, { 1: { seoFriendlyGameName: 'Also Bad' }, 2: { seoFriendlyGameName: 'fine' } }, DEFAULT_SLUG_RULES);
+    expect(issues).toEqual([expect.objectContaining({ line: 7, rowIndex: 1, suggestedValue: 'also-bad' })]);
+  });
+});
+
+describe('parsePastedData slugs', () => {
+  const parse = (name: string, slug: string, slugRules = DEFAULT_SLUG_RULES) => parsePastedData(
+    `IMS Game Code\tName\tGame Provider\tseoFriendlyGameName\ncode-1\t${name}\tAGS\t${slug}`,
+    DEFAULT_PROVIDER_RULES,
+    { ...DEFAULT_MARKET_PROFILES[0], slugRules }
+  );
+
+  it('generates blank slugs with the market rules', () => {
+    const { rows } = parse('The Book of Ra', '', { ...DEFAULT_SLUG_RULES, stopWords: ['the', 'of'] });
+    expect(rows[0].seoFriendlyGameName).toBe('book-ra');
+  });
+
+  it('keeps a supplied slug but warns with a suggested fix', () => {
+    const { rows, issues } = parse('Fortune Señor', 'Fortune-Señor');
+    expect(rows[0].seoFriendlyGameName).toBe('Fortune-Señor');
+    expect(issues).toEqual([expect.objectContaining({
+      rowIndex: 0,
+      field: 'seoFriendlyGameName',
+      severity: 'warning',
+      message: 'Slug "Fortune-Señor" has accented or non-ASCII characters. Suggested: "fortune-senor".',
+      suggestedValue: 'fortune-senor',
+    })]);
+  });
+});
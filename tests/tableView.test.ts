@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { OutputColumnKey, ProcessedGameData, TableViewState } from '../types';
+import { arrangeColumns, columnWindow, EMPTY_TABLE_VIEW, nextSort, rowWindow, selectVisibleRows } from '../services/tableView';
+
+const row = (fields: Partial<ProcessedGameData>): ProcessedGameData => ({
+  gameCode: 'code', name: 'Game', isActive: true, mobileGameCode: 'code', seoFriendlyGameName: 'game', defaultGameImage: '',
+  gameProvider: 'AGS', desktopGameType: 'POP', mobileGameType: 'POP', demoModeSupport: 'unavailable', gameMode: 'default',
+  isGameHot: false,
+  ...fields,
+} as ProcessedGameData);
+
+const rows = [
+  row({ gameCode: 'game10', name: 'Big Bass', gameProvider: 'Pragmatic Play', isGameHot: true }),
+  row({ gameCode: 'game2', name: 'Wolf Run', gameProvider: 'AGS', description: 'Howling wins' }),
+  row({ gameCode: 'game1', name: 'Sweet Bonanza', gameProvider: 'Pragmatic Play' }),
+  row({ gameCode: '', name: 'Unnamed', gameProvider: 'AGS', isGameHot: true }),
+];
+const columns: OutputColumnKey[] = ['gameCode', 'name', 'gameProvider'];
+const view = (changes: Partial<TableViewState>): TableViewState => ({ ...EMPTY_TABLE_VIEW, ...changes });
+
+describe('selectVisibleRows', () => {
+  it('keeps every row in the original order by default', () => {
+    expect(selectVisibleRows(rows, columns, EMPTY_TABLE_VIEW)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('searches the given columns only, ignoring case', () => {
+    expect(selectVisibleRows(rows, columns, view({ search: ' BONANZA ' }))).toEqual([2]);
+    expect(selectVisibleRows(rows, columns, view({ search: 'howling' }))).toEqual([]);
+    expect(selectVisibleRows(rows, [...columns, 'description'], view({ search: 'howling' }))).toEqual([1]);
+  });
+
+  it('matches boolean filters exactly and text filters by substring', () => {
+    expect(selectVisibleRows(rows, columns, view({ filters: { gameProvider: 'pragmatic', isGameHot: 'true' } }))).toEqual([0]);
+    expect(selectVisibleRows(rows, columns, view({ filters: { isGameHot: 'false', name: '' } }))).toEqual([1, 2]);
+  });
+
+  it('sorts naturally with blanks last in both directions', () => {
+    expect(selectVisibleRows(rows, columns, view({ sort: { column: 'gameCode', direction: 'asc' } }))).toEqual([2, 1, 0, 3]);
+    expect(selectVisibleRows(rows, columns, view({ sort: { column: 'gameCode', direction: 'desc' } }))).toEqual([0, 1, 2, 3]);
+  });
+
+  it('sorts booleans false first and keeps ties in their original order', () => {
+    expect(selectVisibleRows(rows, columns, view({ sort: { column: 'isGameHot', direction: 'asc' } }))).toEqual([1, 2, 0, 3]);
+  });
+});
+
+describe('nextSort', () => {
+  it('cycles ascending, descending and unsorted', () => {
+    const asc = nextSort(null, 'name');
+    expect(asc).toEqual({ column: 'name', direction: 'asc' });
+    expect(nextSort(asc, 'name')).toEqual({ column: 'name', direction: 'desc' });
+    expect(nextSort({ column: 'name', direction: 'desc' }, 'name')).toBeNull();
+    expect(nextSort({ column: 'name', direction: 'desc' }, 'gameCode')).toEqual({ column: 'gameCode', direction: 'asc' });
+  });
+});
+
+describe('arrangeColumns', () => {
+  it('puts pinned columns first in pin order and leaves hidden ones out', () => {
+    expect(arrangeColumns(['gameCode', 'name', 'isActive', 'gameProvider'], { hidden: ['isActive'], pinned: ['name', 'isActive', 'description'] }))
+      .toEqual(['name', 'gameCode', 'gameProvider']);
+  });
+});
+
+describe('rowWindow', () => {
+  it('covers the viewport plus overscan and reserves space for the rest', () => {
+    expect(rowWindow(3000, 40, 4000, 400, 5)).toEqual({ start: 95, end: 115, before: 3800, after: 2885 * 40 });
+  });
+
+  it('clamps at both ends', () => {
+    expect(rowWindow(10, 40, 0, 400, 5)).toEqual({ start: 0, end: 10, before: 0, after: 0 });
+    expect(rowWindow(10, 40, 5000, 400, 5)).toEqual({ start: 10, end: 10, before: 400, after: 0 });
+    expect(rowWindow(0, 40, 0, 400)).toEqual({ start: 0, end: 0, before: 0, after: 0 });
+  });
+});
+
+describe('columnWindow', () => {
+  const widths = [100, 200, 100, 100, 300, 100];
+
+  it('renders the columns overlapping the viewport', () => {
+    expect(columnWindow(widths, 150, 250, 0)).toEqual({ start: 1, end: 3, before: 100, after: 500 });
+  });
+
+  it('adds overscan columns and clamps at the edges', () => {
+    expect(columnWindow(widths, 150, 250, 1)).toEqual({ start: 0, end: 4, before: 0, after: 400 });
+    expect(columnWindow(widths, 0, 5000, 2)).toEqual({ start: 0, end: 6, before: 0, after: 0 });
+    expect(columnWindow([], 0, 500)).toEqual({ start: 0, end: 0, before: 0, after: 0 });
+  });
+});
@@ -2,7 +2,7 @@ export interface ProcessedGameData {
   // Core fields
   gameCode: string; // From input 'gameCode'
   name: string; // From input 'name'
-  isActive: boolean; // Hardcoded to true
+  isActive: boolean; // From input 'isActive', defaults to true
   mobileGameCode?: string; // From input 'mobileGameCode' or defaults to gameCode
   seoFriendlyGameName: string; // From input 'seoFriendlyGameName' or generated
   defaultGameImage: string; // Generated or from 'defaultUserImage'
@@ -14,14 +14,14 @@ export interface ProcessedGameData {
   bingoGameType?: string;
   vfGameType?: string;
   jackpotCode?: string;
-  demoModeSupport?: string; // Hardcoded to "unavailable"
-  gameMode?: string; // Hardcoded to "default"
+  demoModeSupport?: string; // From input 'defaultSlotModeSupport', defaults to "unavailable"
+  gameMode?: string; // From input 'gameMode', defaults to "default"
   gameProvider?: string; // From input 'gameProvider'
   urlCustomParameters?: string;
   isExcludedFromPGG: boolean;
   isExcludedFromSitemap: boolean; // Parsed to boolean
 
-  // Availability - all parsed to boolean
+  // Availability - all parsed to boolean, default to true
   deviceAvailability_mobile: boolean;
   deviceAvailability_tablet: boolean;
   deviceAvailability_desktop: boolean;
@@ -106,8 +106,292 @@ export interface ProcessedGameData {
   // Custom fields
   gamesCustomFields_provider?: string;
   gamesCustomFields_externalProviderGameId?: string; // Renamed from gamesCustomFields_providerGameId
+
+  // Processing metadata - not part of the CSV output
+  defaultedFields?: (keyof ProcessedGameData)[]; // Fields that fell back to a default because the column was absent, blank or invalid
+  sourceLine?: number; // 1-based line in the pasted text the row came from
+  imageSources?: Partial<Record<keyof ProcessedGameData, ImageSource>>; // Layout images that were filled in rather than supplied
+}
+
+// How the liveLaunchAlias output value is derived for a provider.
+export type LiveLaunchAliasRule = 'fromColumn' | 'fromGameCode';
+
+export interface ProviderRule {
+  name: string; // Canonical provider name, also used as the label in the registry editor
+  aliases: string[]; // Pasted 'Game Provider' values that resolve to this rule, ignoring case, spacing and punctuation
+  displayName?: string; // Output gameProvider; blank keeps the pasted name
+  imageFolders: { [marketId: string]: string }; // Per-market image folder; blank falls back to the pasted name
+  desktopGameType: string;
+  mobileGameType: string;
+  liveLaunchAliasRule: LiveLaunchAliasRule;
+}
+
+export interface ResolvedProvider {
+  displayName: string;
+  imageFolder: string;
+  desktopGameType: string;
+  mobileGameType: string;
+  liveLaunchAliasRule: LiveLaunchAliasRule;
+  isKnown: boolean; // False when no rule matched and the pasted name was used as is
+}
+
+export type InputDelimiter = '\t' | ',' | ';';
+
+export interface DelimitedTextDialect {
+  delimiter: InputDelimiter;
+  lineEnding: 'LF' | 'CRLF' | 'CR' | 'mixed';
+  hasBom: boolean;
+  hasQuotedFields: boolean;
+}
+
+export interface DelimitedRow {
+  cells: string[];
+  line: number; // 1-based line in the pasted text where the row starts
+}
+
+export type OutputFormat = 'csv' | 'tsv' | 'semicolon' | 'json' | 'ndjson' | 'xlsx';
+
+export interface OutputFormatDefinition {
+  label: string;
+  delimiter?: string; // Set for the delimited text formats only
+  extension: string;
+  mimeType: string;
+}
+
+export interface CsvOutputOptions {
+  format: OutputFormat;
+  includeBom: boolean; // Prepend a UTF-8 BOM so Excel detects the encoding; delimited formats only
+  lineEnding: 'LF' | 'CRLF'; // Delimited formats only
+}
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  line: number; // 1-based line in the pasted text
+  rowIndex?: number; // Index into ParseResult.rows; absent when the row was skipped
+  column?: string; // Input header or output field the issue refers to
+  field?: keyof ProcessedGameData; // Output field the issue is about; editing it resolves the issue
+  severity: IssueSeverity;
+  skipped: boolean; // Whether the row was left out of the output
+  message: string;
+  unknownProvider?: { name: string; suggestion?: string }; // Set on unknown-provider warnings so the report can offer to add a mapping
+  suggestedValue?: string; // Corrected value the report can apply to the issue's field as an edit
+}
+
+export interface ParseResult {
+  rows: ProcessedGameData[];
+  issues: ValidationIssue[];
+  dialect: DelimitedTextDialect;
+}
+
+export type UniqueField = 'gameCode' | 'mobileGameCode' | 'seoFriendlyGameName' | 'articleId' | 'defaultGameImage';
+
+export interface DuplicateConflict {
+  field: UniqueField;
+  value: string;
+  rowIndexes: number[]; // All rows sharing the value, in input order
+}
+
+export type DuplicateResolutionStrategy = 'keepFirst' | 'keepLast' | 'suffixSlug';
+
+// Edited values per row index; only fields that differ from the derived value are stored.
+export type CellEdits = Record<number, Partial<ProcessedGameData>>;
+
+// Cell edits per processed market ID. Markets derive some values differently (images,
+// slugs, flag defaults), so each market keeps its own edits.
+export type MarketCellEdits = Record<string, CellEdits>;
+
+export interface EditHistory {
+  past: MarketCellEdits[];
+  present: MarketCellEdits;
+  future: MarketCellEdits[];
+}
+
+// A column of the output file. Every ProcessedGameData field except the processing metadata.
+export type OutputColumnKey = Exclude<keyof ProcessedGameData, 'defaultedFields' | 'sourceLine' | 'imageSources'>;
+
+export interface ColumnProfile {
+  id: string;
+  name: string;
+  columns: OutputColumnKey[]; // In output order
+  builtIn?: boolean; // Built-in profiles are read-only
+}
+
+// A previously exported file (or catalog dump) keyed by output column name.
+export interface BaselineExport {
+  fileName: string;
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface RowDiff {
+  gameCode: string;
+  status: DiffStatus;
+  rowIndex?: number; // Index into the current rows; absent for removed games
+  changes: Partial<Record<OutputColumnKey, string>>; // Changed fields with their baseline value
+}
+
+export interface DiffResult {
+  rows: RowDiff[];
+  comparedColumns: OutputColumnKey[];
+  counts: Record<DiffStatus, number>;
+}
+
+export type DiffDownloadKind = 'added' | 'changed' | 'changeset';
+
+export type FlagDefaults = Partial<Record<OutputColumnKey, boolean>>;
+
+// A brand/market the batch can be processed for, e.g. .CA or .COM.
+export interface MarketProfile {
+  id: string; // Also the key of ProviderRule.imageFolders
+  label: string;
+  imageRoot: string; // Library folder that generated defaultGameImage paths start with
+  defaultFlags: FlagDefaults; // Overrides DEFAULT_FLAG_VALUES when a flag column is absent or blank
+  columnProfileId?: string; // Output columns for this market; falls back to the selected profile
+  previewHost?: string; // Site that serves the library, e.g. "https://www.example.ca", for image previews
+  layoutImageTemplate?: string; // Path for blank layout image columns, see LAYOUT_IMAGE_TEMPLATE_PLACEHOLDERS
+  copyMainImages?: boolean; // Fill blank mobile/guest layout images from the supplied main image
+  slugRules?: SlugRules; // Falls back to DEFAULT_SLUG_RULES
+}
+
+// How seoFriendlyGameName values are generated from game names, and checked when supplied.
+export interface SlugRules {
+  ampersandWord: string; // Replaces "&", e.g. "and" or "et"; blank drops it
+  stopWords: string[]; // Left out of generated slugs unless nothing else remains
+  maxLength: number; // Longer slugs are cut at a word boundary; 0 for no limit
+  expandUmlauts: boolean; // German style ä → ae, ö → oe, ü → ue instead of a, o, u
+}
+
+// How a blank layout image column was filled in.
+export type ImageSource = 'template' | 'copiedFromMain';
+
+// Pasted header the user chose for an input field, keyed by INPUT_HEADER_MAPPINGS key.
+export type HeaderMappings = Record<string, string>;
+
+// Files known to exist in the asset library, used to check image paths before publishing.
+export interface ImageManifest {
+  fileName: string;
+  paths: string[]; // Decoded, root-relative library paths, e.g. "/library/Game Icons/AGS/wolf.webp"
+}
+
+// Working state restored after a page reload.
+export interface SavedSession {
+  rawText: string;
+  marketRows: Record<string, ProcessedGameData[]>; // Derived rows per processed market ID
+  activeMarketId: string | null;
+  issuesByMarket: Record<string, ValidationIssue[]>; // Parse issues per processed market ID
+  dialect: DelimitedTextDialect | null;
+  edits: MarketCellEdits;
+}
+
+// A generated file kept so it can be downloaded again, reopened or compared against.
+export interface HistoryRun {
+  id: string;
+  createdAt: string; // ISO timestamp
+  marketId: string;
+  marketLabel: string;
+  fileName: string;
+  format?: OutputFormat; // Absent on runs saved before non-delimited exports existed; those are delimited
+  mimeType: string;
+  content: string | Uint8Array; // Bytes for XLSX workbooks
+  rowCount: number;
+  rows: ProcessedGameData[]; // Exported rows with edits applied, for reopening the batch
+  rawText: string; // Pasted input the rows came from
+}
+
+export type ImportFormat = 'delimited' | 'xlsx' | 'mondayJson';
+
+// One table from an imported file, already converted to text parsePastedData reads.
+export interface ImportedSheet {
+  name: string;
+  text: string;
+  rowCount: number; // Data rows below the header
+}
+
+export interface ImportedFile {
+  fileName: string;
+  format: ImportFormat;
+  sheets: ImportedSheet[]; // Several only for workbooks with more than one worksheet
+}
+
+export interface MondayColumn {
+  id: string;
+  title: string;
+}
+
+// Board layout fetched before the items, so groups and the filter column can be picked.
+export interface MondayBoard {
+  id: string;
+  name: string;
+  columns: MondayColumn[];
+  groups: MondayColumn[];
 }
 
-export interface GameProviderFolderMapping {
-  [providerName: string]: string;
-}
\ No newline at end of file
+export interface MondayItemQuery {
+  groupIds: string[]; // Empty for the whole board
+  filterColumnId: string; // Empty for no filter
+  filterValues: string[]; // Display texts that keep an item, compared case-insensitively
+}
+
+// Connector settings kept between visits; the API token is never stored.
+export interface MondaySourceSettings extends MondayItemQuery {
+  boardId: string;
+}
+
+export type CmsPublishFormat = 'csv' | 'json';
+
+// Where and how processed rows are published; the auth header value is never stored.
+export interface CmsPublishSettings {
+  endpoint: string;
+  authHeaderName: string; // e.g. Authorization or X-Api-Key
+  format: CmsPublishFormat;
+  chunkSize: number; // Rows per request
+  maxRetries: number; // Further attempts for a chunk after a network error, 429 or 5xx
+}
+
+export type CmsRowStatus = 'accepted' | 'rejected' | 'failed';
+
+export interface CmsRowResult {
+  rowIndex: number; // Index in the published rows
+  gameCode: string;
+  status: CmsRowStatus; // failed: the row's chunk never got an answer
+  message?: string;
+}
+
+// Work sent to the processing worker, which keeps parsing and file generation off the UI thread.
+export type ProcessingJob =
+  | { kind: 'parse'; text: string; providerRules: ProviderRule[]; markets: MarketProfile[]; headerMappings: HeaderMappings }
+  | { kind: 'export'; rows: ProcessedGameData[]; columns: OutputColumnKey[]; options: CsvOutputOptions; issues: ValidationIssue[] };
+
+export interface ParseJobResult {
+  rowsByMarket: Record<string, ProcessedGameData[]>; // Same rows in the same order for every market
+  issuesByMarket: Record<string, ValidationIssue[]>; // Markets check slugs and flags by their own rules
+  dialect: DelimitedTextDialect;
+}
+
+export type ProcessingJobResult<J extends ProcessingJob> = J extends { kind: 'parse' } ? ParseJobResult : string | Uint8Array;
+
+export type SortDirection = 'asc' | 'desc';
+
+// How the preview table narrows and orders rows; the rows themselves are never changed.
+export interface TableViewState {
+  search: string; // Case-insensitive text matched against every visible column
+  filters: Partial<Record<OutputColumnKey, string>>; // "true"/"false" for boolean columns, otherwise text contained in the value
+  sort: { column: OutputColumnKey; direction: SortDirection } | null;
+}
+
+// Slice of rows or columns to render, and the space the skipped ones take on either side.
+export interface RenderWindow {
+  start: number;
+  end: number; // Exclusive
+  before: number; // Pixels
+  after: number;
+}
+
+// Column visibility and pinning in the preview, remembered across sessions.
+export interface TableColumnLayout {
+  hidden: OutputColumnKey[];
+  pinned: OutputColumnKey[]; // Kept at the left edge while scrolling horizontally
+}
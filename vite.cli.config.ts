@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Bundles the command-line interface into a single Node script: `npm run build:cli`.
+export default defineConfig({
+  build: {
+    ssr: 'cli/csv-creator.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'csv-creator.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});